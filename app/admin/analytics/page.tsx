@@ -0,0 +1,140 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import type { UsageSummary } from "@/lib/analytics/summary";
+import { useEditorToken } from "../../hooks/useEditorToken";
+
+const PERIODS = [7, 30, 90];
+
+const SEARCH_KIND_LABELS = { "search": "일반", "ai-search": "AI" };
+
+// Copies are tracked by variant label; "custom" is the AI rewrite and bare numbers come from before labels existed.
+const versionLabel = (version: string) => (version === "custom" ? "맞춤" : /^\d+$/.test(version) ? `Ver ${version}` : version);
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section>
+      <h2 className="text-sm font-bold text-gray-400 mb-3 uppercase tracking-wider">{title}</h2>
+      <div className="bg-white rounded-2xl border border-gray-200 divide-y divide-gray-100">{children}</div>
+    </section>
+  );
+}
+
+function Empty({ children }: { children: React.ReactNode }) {
+  return <p className="px-5 py-8 text-center text-sm text-gray-400">{children}</p>;
+}
+
+// Usage dashboard for editors: what coaches use, what they never open, and what they look for in vain.
+export default function AnalyticsPage() {
+  const { token } = useEditorToken();
+  const [days, setDays] = useState(30);
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+    fetch(`/api/admin/analytics?days=${days}`, { headers: { Authorization: `Bearer ${token}` } })
+      .then(async (res) => {
+        const body = await res.json();
+        if (!res.ok) throw new Error(body.error || "Failed to load usage");
+        setSummary(body);
+        setError(null);
+      })
+      .catch((e) => setError(e instanceof Error ? e.message : String(e)));
+  }, [token, days]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 text-gray-900 font-sans pb-20">
+      <header className="bg-white border-b border-gray-200 sticky top-0 z-10 shadow-sm">
+        <div className="max-w-5xl mx-auto px-6 py-4 flex items-center justify-between">
+          <h1 className="text-xl font-extrabold tracking-tight text-gray-900">📊 사용 통계</h1>
+          <Link href="/admin" className="text-xs font-bold text-gray-500 hover:text-gray-900 bg-gray-100 px-2.5 py-1 rounded-lg">
+            ← 편집
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-6 mt-8 space-y-8">
+        {!token ? (
+          <p className="text-sm text-gray-500">
+            <Link href="/admin" className="font-bold text-blue-600 hover:underline">편집 화면</Link>에서 먼저 편집자 토큰을 입력하세요.
+          </p>
+        ) : (
+          <>
+            <div className="flex items-center gap-2">
+              {PERIODS.map((period) => (
+                <button
+                  key={period}
+                  onClick={() => setDays(period)}
+                  className={`px-3 py-1.5 rounded-md text-xs font-bold transition-colors ${days === period ? "bg-blue-600 text-white shadow-sm" : "bg-blue-100 text-blue-600 hover:bg-blue-200"}`}
+                >
+                  최근 {period}일
+                </button>
+              ))}
+              {summary && (
+                <span className="ml-auto text-xs text-gray-400">
+                  복사 {summary.totals.copy} · 펼침 {summary.totals.expand} · AI 검색 {summary.totals["ai-search"]} · 결과 없는 검색 {summary.totals.search}
+                </span>
+              )}
+            </div>
+
+            {error && <p className="text-sm font-bold text-red-600">{error}</p>}
+
+            {summary && (
+              <>
+                <Section title="많이 쓰인 피드백">
+                  {summary.topEntries.length === 0 && <Empty>아직 기록된 사용이 없습니다.</Empty>}
+                  {summary.topEntries.map((entry, index) => (
+                    <div key={entry.id} className="px-5 py-3 flex items-center gap-4">
+                      <span className="w-6 text-sm font-bold text-gray-300">{index + 1}</span>
+                      <div className="flex-1 min-w-0">
+                        <span className="text-[11px] font-bold text-gray-400">{entry.category}</span>
+                        <Link href={`/item/${encodeURIComponent(entry.id)}`} className="block text-sm font-bold text-gray-800 hover:text-blue-600 truncate">
+                          {entry.problem}
+                        </Link>
+                      </div>
+                      <div className="text-xs text-gray-500 text-right whitespace-nowrap">
+                        <p>
+                          복사 <b className="text-gray-900">{entry.copies}</b> · 펼침 {entry.expansions} · AI {entry.aiMatches}
+                        </p>
+                        {entry.copies > 0 && (
+                          <p className="text-[11px] text-gray-400">
+                            {Object.entries(entry.copiesByVersion).map(([version, count]) => `${versionLabel(version)} ${count}`).join(" · ")}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </Section>
+
+                <Section title="결과 없는 검색 (다음에 쓸 피드백 후보)">
+                  {summary.unmetSearches.length === 0 && <Empty>결과 없이 끝난 검색이 없습니다.</Empty>}
+                  {summary.unmetSearches.map((search) => (
+                    <div key={search.query} className="px-5 py-3 flex items-center gap-4">
+                      <p className="flex-1 text-sm font-medium text-gray-800">{search.query}</p>
+                      <span className="text-[11px] text-gray-400">{search.kinds.map((kind) => SEARCH_KIND_LABELS[kind]).join(", ")}</span>
+                      <span className="text-xs font-bold text-gray-500 whitespace-nowrap">{search.count}회</span>
+                    </div>
+                  ))}
+                </Section>
+
+                <Section title={`한 번도 쓰이지 않은 피드백 (${summary.unusedEntries.length})`}>
+                  {summary.unusedEntries.length === 0 && <Empty>모든 피드백이 한 번 이상 쓰였습니다.</Empty>}
+                  {summary.unusedEntries.map((entry) => (
+                    <div key={entry.id} className="px-5 py-3">
+                      <span className="text-[11px] font-bold text-gray-400">{entry.category}</span>
+                      <Link href={`/item/${encodeURIComponent(entry.id)}`} className="block text-sm text-gray-700 hover:text-blue-600">
+                        {entry.problem}
+                      </Link>
+                    </div>
+                  ))}
+                </Section>
+              </>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { diffRevision } from "@/lib/editor/diff";
+import type { EditorEntry, EditorFields, Revision, RevisionAction } from "@/lib/editor/types";
+import EntryForm from "../components/EntryForm";
+import RevisionDiff from "../components/RevisionDiff";
+import { useEditorToken } from "../hooks/useEditorToken";
+
+const ACTION_LABELS: Record<RevisionAction, string> = {
+  create: "추가",
+  update: "수정",
+  move: "순서 변경",
+  archive: "보관",
+  restore: "복원",
+  import: "CSV 가져오기",
+  rollback: "되돌리기",
+};
+
+type MutationResult = { revision: Revision; entries: EditorEntry[] };
+
+export default function AdminPage() {
+  const { token, setToken } = useEditorToken();
+  const [tokenInput, setTokenInput] = useState("");
+  const [entries, setEntries] = useState<EditorEntry[]>([]);
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  // Bumped after every change so the history is fetched again
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+  const [editing, setEditing] = useState<string | "new" | null>(null);
+  const [openRevision, setOpenRevision] = useState<number | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const api = async <T,>(path: string, init: RequestInit = {}): Promise<T> => {
+    const res = await fetch(path, { ...init, headers: { ...init.headers, Authorization: `Bearer ${token}` } });
+    const body = await res.json();
+    if (res.status === 401) setToken("");
+    if (!res.ok) throw new Error(body.error || "Request Failed");
+    return body;
+  };
+
+  useEffect(() => {
+    if (!token) return;
+    fetch("/api/admin/entries", { headers: { Authorization: `Bearer ${token}` } })
+      .then(async (res) => {
+        const body = await res.json();
+        if (res.status === 401) setToken("");
+        if (!res.ok) throw new Error(body.error || "Failed to load entries");
+        setEntries(body.entries);
+      })
+      .catch((e) => setError(e instanceof Error ? e.message : String(e)));
+  }, [token, setToken]);
+
+  useEffect(() => {
+    if (!token) return;
+    const query = historyFor ? `?entry=${encodeURIComponent(historyFor)}` : "";
+    fetch(`/api/admin/revisions${query}`, { headers: { Authorization: `Bearer ${token}` } })
+      .then((res) => (res.ok ? res.json() : { revisions: [] }))
+      .then((body) => setRevisions(body.revisions))
+      .catch((e) => console.error("Failed to load history", e));
+  }, [token, historyFor, historyVersion]);
+
+  const categories = useMemo(() => Array.from(new Set(entries.map((entry) => entry.category))), [entries]);
+  const visibleEntries = entries.filter((entry) => showArchived || !entry.archived);
+
+  // Runs a change, then shows the updated list and history
+  const run = async (path: string, init: RequestInit) => {
+    setError(null);
+    try {
+      const result = await api<MutationResult>(path, init);
+      setEntries(result.entries);
+      setHistoryVersion((v) => v + 1);
+      return result;
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      return null;
+    }
+  };
+
+  const json = (method: string, body: unknown): RequestInit => ({
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+  const saveEntry = async (id: string | "new", fields: EditorFields) => {
+    // null rather than undefined, so clearing the severity survives JSON.stringify
+    const body = { ...fields, severity: fields.severity ?? null };
+    const result = id === "new"
+      ? await run("/api/admin/entries", json("POST", body))
+      : await run(`/api/admin/entries/${encodeURIComponent(id)}`, json("PATCH", body));
+    if (result) setEditing(null);
+  };
+
+  const move = (entry: EditorEntry, offset: number) =>
+    run(`/api/admin/entries/${encodeURIComponent(entry.id)}/move`, json("POST", { index: entries.indexOf(entry) + offset }));
+
+  const toggleArchived = (entry: EditorEntry) =>
+    run(`/api/admin/entries/${encodeURIComponent(entry.id)}`, json("PATCH", { archived: !entry.archived }));
+
+  const rollback = (revision: Revision) => {
+    if (!confirm(`#${revision.id} (${ACTION_LABELS[revision.action]}) 이전 상태로 되돌릴까요?`)) return;
+    run(`/api/admin/revisions/${revision.id}/rollback`, { method: "POST" });
+  };
+
+  const importCsv = (file: File) => {
+    if (!confirm(`${file.name}의 내용으로 교체합니다. CSV에 없는 항목은 보관 처리됩니다.`)) return;
+    const form = new FormData();
+    form.append("file", file);
+    run("/api/admin/import", { method: "POST", body: form });
+  };
+
+  const importCurrent = () => {
+    if (!confirm("지금 사이트에 게시된 내용(구글 시트)으로 교체합니다.")) return;
+    run("/api/admin/import?from=current", { method: "POST" });
+  };
+
+  const exportCsv = async () => {
+    const res = await fetch("/api/admin/export", { headers: { Authorization: `Bearer ${token}` } });
+    if (!res.ok) return setError("CSV 내보내기에 실패했습니다.");
+    const url = URL.createObjectURL(await res.blob());
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "feedback-encyclopedia.csv";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (!token) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 px-6">
+        <form
+          onSubmit={(e) => { e.preventDefault(); setToken(tokenInput.trim()); }}
+          className="w-full max-w-sm bg-white rounded-2xl border border-gray-200 shadow-sm p-6 space-y-3"
+        >
+          <h1 className="text-lg font-extrabold">🛠️ 백과사전 편집</h1>
+          <p className="text-sm text-gray-500">편집자 토큰을 입력하세요.</p>
+          <input
+            type="password"
+            value={tokenInput}
+            onChange={(e) => setTokenInput(e.target.value)}
+            className="w-full text-sm border border-gray-200 rounded-lg p-2.5 focus:outline-none focus:border-blue-500"
+          />
+          <button type="submit" disabled={!tokenInput.trim()} className="w-full py-2.5 rounded-lg text-sm font-bold bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-100 disabled:text-gray-400">
+            들어가기
+          </button>
+        </form>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 text-gray-900 font-sans pb-20">
+      <header className="bg-white border-b border-gray-200 sticky top-0 z-10 shadow-sm">
+        <div className="max-w-6xl mx-auto px-6 py-4 flex items-center justify-between">
+          <h1 className="text-xl font-extrabold tracking-tight text-gray-900">🛠️ 백과사전 편집</h1>
+          <div className="flex items-center gap-2">
+            <Link href="/admin/analytics" className="text-xs font-bold text-blue-600 bg-blue-50 hover:bg-blue-100 px-2.5 py-1 rounded-lg">
+              📊 사용 통계
+            </Link>
+            <button onClick={() => setToken("")} className="text-xs font-bold text-gray-400 hover:text-gray-700">
+              로그아웃
+            </button>
+            <Link href="/" className="text-xs font-bold text-gray-500 hover:text-gray-900 bg-gray-100 px-2.5 py-1 rounded-lg">
+              ← 백과사전
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-6 mt-8 grid grid-cols-1 lg:grid-cols-[1fr_380px] gap-8">
+        <section className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <button onClick={() => setEditing("new")} className="px-3 py-1.5 rounded-lg text-xs font-bold bg-blue-600 text-white hover:bg-blue-700">
+              + 새 항목
+            </button>
+            <label className="px-3 py-1.5 rounded-lg text-xs font-bold bg-gray-100 text-gray-700 hover:bg-gray-200 cursor-pointer">
+              CSV 가져오기
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                onChange={(e) => { const file = e.target.files?.[0]; if (file) importCsv(file); e.target.value = ""; }}
+              />
+            </label>
+            <button onClick={importCurrent} className="px-3 py-1.5 rounded-lg text-xs font-bold bg-gray-100 text-gray-700 hover:bg-gray-200">
+              게시본 가져오기
+            </button>
+            <button onClick={exportCsv} className="px-3 py-1.5 rounded-lg text-xs font-bold bg-gray-100 text-gray-700 hover:bg-gray-200">
+              CSV 내보내기
+            </button>
+            <label className="ml-auto flex items-center gap-1.5 text-xs text-gray-500">
+              <input type="checkbox" checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} />
+              보관된 항목 보기
+            </label>
+          </div>
+
+          {error && <p className="text-sm font-bold text-red-600">{error}</p>}
+
+          {editing === "new" && (
+            <div className="bg-white rounded-2xl border border-blue-200 p-5">
+              <EntryForm categories={categories} submitLabel="추가" onSubmit={(fields) => saveEntry("new", fields)} onCancel={() => setEditing(null)} />
+            </div>
+          )}
+
+          {visibleEntries.length === 0 && (
+            <div className="text-center py-16 text-sm text-gray-400 bg-white rounded-2xl border border-dashed border-gray-200">
+              <p>편집 저장소가 비어 있습니다.</p>
+              <p className="mt-1">CSV를 가져오거나 게시본을 가져와서 시작하세요.</p>
+            </div>
+          )}
+
+          <ol className="space-y-2">
+            {visibleEntries.map((entry) => (
+              <li key={entry.id} className={`bg-white rounded-xl border p-4 ${entry.archived ? "border-dashed border-gray-200 opacity-60" : "border-gray-200"}`}>
+                {editing === entry.id ? (
+                  <EntryForm
+                    initial={entry}
+                    categories={categories}
+                    submitLabel="저장"
+                    onSubmit={(fields) => saveEntry(entry.id, fields)}
+                    onCancel={() => setEditing(null)}
+                  />
+                ) : (
+                  <div className="flex items-start gap-3">
+                    <div className="flex-1 min-w-0">
+                      <span className="text-[11px] font-bold text-gray-400">{entry.category}{entry.subcategory && ` › ${entry.subcategory}`}{entry.archived && " · 보관됨"} · <span className="font-mono font-normal">{entry.id}</span></span>
+                      <p className="text-sm font-bold text-gray-800 leading-snug">{entry.problem}</p>
+                    </div>
+                    <div className="flex items-center gap-1 text-xs font-bold text-gray-400">
+                      <button onClick={() => move(entry, -1)} disabled={entries.indexOf(entry) === 0} className="px-1.5 hover:text-gray-700 disabled:opacity-30" title="위로">▲</button>
+                      <button onClick={() => move(entry, 1)} disabled={entries.indexOf(entry) === entries.length - 1} className="px-1.5 hover:text-gray-700 disabled:opacity-30" title="아래로">▼</button>
+                      <button onClick={() => setEditing(entry.id)} className="px-1.5 hover:text-blue-600">편집</button>
+                      <button onClick={() => setHistoryFor(entry.id)} className="px-1.5 hover:text-blue-600">기록</button>
+                      <button onClick={() => toggleArchived(entry)} className="px-1.5 hover:text-red-600">{entry.archived ? "복원" : "보관"}</button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ol>
+        </section>
+
+        <aside className="space-y-3">
+          <h2 className="text-sm font-bold text-gray-400 uppercase tracking-wider flex items-center justify-between">
+            변경 기록
+            {historyFor && (
+              <button onClick={() => setHistoryFor(null)} className="text-xs font-bold normal-case text-blue-600 hover:underline">
+                전체 보기
+              </button>
+            )}
+          </h2>
+          {revisions.length === 0 && <p className="text-sm text-gray-400">기록이 없습니다.</p>}
+          {revisions.map((revision) => (
+            <div key={revision.id} className="bg-white rounded-xl border border-gray-200 p-3">
+              <button onClick={() => setOpenRevision(openRevision === revision.id ? null : revision.id)} className="w-full text-left">
+                <p className="text-sm font-bold text-gray-800">
+                  #{revision.id} {ACTION_LABELS[revision.action]}
+                  {revision.rolledBack && <span className="font-normal text-gray-500"> (#{revision.rolledBack})</span>}
+                </p>
+                <p className="text-[11px] text-gray-400">
+                  {revision.author} · {new Date(revision.timestamp).toLocaleString("ko-KR")}
+                </p>
+              </button>
+              {openRevision === revision.id && (
+                <div className="mt-3 pt-3 border-t border-gray-100 space-y-3">
+                  <RevisionDiff diffs={diffRevision(revision)} />
+                  <button onClick={() => rollback(revision)} className="text-xs font-bold text-red-600 hover:underline">
+                    이 변경 되돌리기
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </aside>
+      </main>
+    </div>
+  );
+}
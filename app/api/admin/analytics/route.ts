@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { readEvents } from '@/lib/analytics/store';
+import { summarizeUsage } from '@/lib/analytics/summary';
+import { getFeedback } from '@/lib/feedback/cache';
+import { authenticateEditor } from '@/lib/editor/http';
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 365;
+
+// Most-used and unused entries, and searches that found nothing, over the last N days.
+// GET /api/admin/analytics?days=30
+export async function GET(request: Request) {
+    const editor = authenticateEditor(request);
+    if (editor instanceof NextResponse) return editor;
+
+    try {
+        const { searchParams } = new URL(request.url);
+        const days = Math.min(Number(searchParams.get('days')) || DEFAULT_DAYS, MAX_DAYS);
+        const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+        const [events, feedback] = await Promise.all([readEvents(since), getFeedback()]);
+        return NextResponse.json({ days, ...summarizeUsage(events, feedback.items, since) });
+    } catch (error) {
+        console.error('[ANALYTICS] Failed to build summary:', error);
+        return NextResponse.json({ error: 'Failed to build usage summary' }, { status: 500 });
+    }
+}
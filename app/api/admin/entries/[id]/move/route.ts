@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { authenticateEditor, editorErrorResponse, publishEditorChanges } from '@/lib/editor/http';
+import { moveEntry, readEditorStore } from '@/lib/editor/store';
+import { readJsonBody } from '@/lib/http';
+
+// Moves an entry to a new position in the list.
+// POST /api/admin/entries/:id/move { index: number }
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+    const editor = authenticateEditor(request);
+    if (editor instanceof NextResponse) return editor;
+
+    try {
+        const { id } = await params;
+        const body = await readJsonBody(request);
+        if (body instanceof NextResponse) return body;
+        const { index } = body;
+        if (typeof index !== 'number' || !Number.isInteger(index)) {
+            return NextResponse.json({ error: 'Target index is required' }, { status: 400 });
+        }
+
+        const revision = await moveEntry(id, index, editor);
+        publishEditorChanges();
+
+        const { entries } = await readEditorStore();
+        return NextResponse.json({ revision, entries });
+    } catch (error) {
+        return editorErrorResponse(error);
+    }
+}
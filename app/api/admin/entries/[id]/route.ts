@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { authenticateEditor, editorErrorResponse, publishEditorChanges } from '@/lib/editor/http';
+import { readEditorStore, setArchived, updateEntry } from '@/lib/editor/store';
+import type { EditorFields } from '@/lib/editor/types';
+import { readJsonBody } from '@/lib/http';
+
+// Edits an entry's fields, or archives / restores it.
+// PATCH /api/admin/entries/:id { category?, subcategory?, problem?, solutions?, tags?, severity?, related? } | { archived: boolean }
+export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
+    const editor = authenticateEditor(request);
+    if (editor instanceof NextResponse) return editor;
+
+    try {
+        const { id } = await params;
+        const body = await readJsonBody(request);
+        if (body instanceof NextResponse) return body;
+
+        const revision = typeof body.archived === 'boolean'
+            ? await setArchived(id, body.archived, editor)
+            : await updateEntry(id, body as Partial<EditorFields>, editor);
+        console.log(`[EDITOR] ${editor} ${revision.action}d ${id}`);
+        publishEditorChanges();
+
+        const { entries } = await readEditorStore();
+        return NextResponse.json({ revision, entries });
+    } catch (error) {
+        return editorErrorResponse(error);
+    }
+}
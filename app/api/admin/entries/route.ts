@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { authenticateEditor, editorErrorResponse, publishEditorChanges } from '@/lib/editor/http';
+import { createEntry, readEditorStore } from '@/lib/editor/store';
+import type { EditorFields } from '@/lib/editor/types';
+import { readJsonBody } from '@/lib/http';
+
+// Every entry in the editor store, archived ones included, in display order.
+// GET /api/admin/entries
+export async function GET(request: Request) {
+    const editor = authenticateEditor(request);
+    if (editor instanceof NextResponse) return editor;
+
+    try {
+        const { entries } = await readEditorStore();
+        return NextResponse.json({ entries });
+    } catch (error) {
+        return editorErrorResponse(error);
+    }
+}
+
+// POST /api/admin/entries { category, subcategory?, problem, solutions: [{ label, text, tone?, length? }], tags?, severity?, related? }
+export async function POST(request: Request) {
+    const editor = authenticateEditor(request);
+    if (editor instanceof NextResponse) return editor;
+
+    try {
+        const body = await readJsonBody(request);
+        if (body instanceof NextResponse) return body;
+        const fields = body as Partial<EditorFields>;
+        const revision = await createEntry({
+            category: String(fields.category ?? ''),
+            problem: String(fields.problem ?? ''),
+            solutions: Array.isArray(fields.solutions) ? fields.solutions : [],
+            subcategory: fields.subcategory,
+            tags: fields.tags,
+            severity: fields.severity,
+            related: fields.related,
+        }, editor);
+        console.log(`[EDITOR] ${editor} created ${revision.entryId}`);
+        publishEditorChanges();
+
+        const { entries } = await readEditorStore();
+        return NextResponse.json({ revision, entries }, { status: 201 });
+    } catch (error) {
+        return editorErrorResponse(error);
+    }
+}
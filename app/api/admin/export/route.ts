@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { entriesToCsv } from '@/lib/editor/csv';
+import { authenticateEditor, editorErrorResponse } from '@/lib/editor/http';
+import { readEditorStore } from '@/lib/editor/store';
+
+// Published entries as a CSV in the sheet's column layout, ready to paste back into Google Sheets.
+// GET /api/admin/export
+export async function GET(request: Request) {
+    const editor = authenticateEditor(request);
+    if (editor instanceof NextResponse) return editor;
+
+    try {
+        const { entries } = await readEditorStore();
+        return new NextResponse(entriesToCsv(entries), {
+            headers: {
+                'Content-Type': 'text/csv; charset=utf-8',
+                'Content-Disposition': 'attachment; filename="feedback-encyclopedia.csv"',
+            },
+        });
+    } catch (error) {
+        return editorErrorResponse(error);
+    }
+}
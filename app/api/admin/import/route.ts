@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { getFeedback } from '@/lib/feedback/cache';
+import { parseCsv } from '@/lib/feedback/sources';
+import type { FeedbackItem } from '@/lib/feedback/types';
+import { authenticateEditor, editorErrorResponse, publishEditorChanges } from '@/lib/editor/http';
+import { importEntries, readEditorStore } from '@/lib/editor/store';
+
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+async function readItems(request: Request): Promise<FeedbackItem[]> {
+    const { searchParams } = new URL(request.url);
+    // Seeds the store from whatever the site currently serves (usually the Google Sheet)
+    if (searchParams.get('from') === 'current') {
+        return (await getFeedback()).items;
+    }
+
+    if (request.headers.get('content-type')?.includes('multipart/form-data')) {
+        const file = (await request.formData()).get('file');
+        return file instanceof File ? parseCsv(await file.text()) : [];
+    }
+    return parseCsv(await request.text());
+}
+
+// Replaces the store's content with a CSV in the sheet's column layout (multipart "file" field or a
+// text/csv body), or with the currently published entries. Entries missing from the import are archived.
+// POST /api/admin/import [?from=current]
+export async function POST(request: Request) {
+    const editor = authenticateEditor(request);
+    if (editor instanceof NextResponse) return editor;
+
+    try {
+        if (Number(request.headers.get('content-length')) > MAX_FILE_BYTES) {
+            return NextResponse.json({ error: 'CSV file is larger than 5MB' }, { status: 413 });
+        }
+
+        const items = await readItems(request);
+        if (items.length === 0) {
+            return NextResponse.json({ error: 'No entries found. Does the CSV have the 문제점 and 솔루션 columns?' }, { status: 422 });
+        }
+
+        const revision = await importEntries(items, editor);
+        console.log(`[EDITOR] ${editor} imported ${items.length} entries`);
+        publishEditorChanges();
+
+        const { entries } = await readEditorStore();
+        return NextResponse.json({ revision, entries });
+    } catch (error) {
+        return editorErrorResponse(error);
+    }
+}
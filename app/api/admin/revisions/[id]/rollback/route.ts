@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { authenticateEditor, editorErrorResponse, publishEditorChanges } from '@/lib/editor/http';
+import { readEditorStore, rollbackRevision } from '@/lib/editor/store';
+
+// Undoes one revision by restoring what it changed; recorded as a new "rollback" revision.
+// POST /api/admin/revisions/:id/rollback
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+    const editor = authenticateEditor(request);
+    if (editor instanceof NextResponse) return editor;
+
+    try {
+        const { id } = await params;
+        const revision = await rollbackRevision(Number(id), editor);
+        console.log(`[EDITOR] ${editor} rolled back revision ${id}`);
+        publishEditorChanges();
+
+        const { entries } = await readEditorStore();
+        return NextResponse.json({ revision, entries });
+    } catch (error) {
+        return editorErrorResponse(error);
+    }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { authenticateEditor, editorErrorResponse } from '@/lib/editor/http';
+import { listRevisions } from '@/lib/editor/store';
+
+const MAX_LIMIT = 200;
+
+// Change history, newest first.
+// GET /api/admin/revisions?entry=<id>&limit=50
+export async function GET(request: Request) {
+    const editor = authenticateEditor(request);
+    if (editor instanceof NextResponse) return editor;
+
+    try {
+        const { searchParams } = new URL(request.url);
+        const entryId = searchParams.get('entry') || undefined;
+        const limit = Math.min(Number(searchParams.get('limit')) || 50, MAX_LIMIT);
+
+        return NextResponse.json({ revisions: await listRevisions(entryId, limit) });
+    } catch (error) {
+        return editorErrorResponse(error);
+    }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { getConfiguredSources } from '@/lib/feedback/repository';
+import { parseCsvTable } from '@/lib/feedback/sources';
+import { validateSource, validateTable } from '@/lib/feedback/validate';
+import { authenticateEditor } from '@/lib/editor/http';
+
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+// Validation report for a feedback source: missing columns, dropped rows, duplicates and one-off categories.
+// GET /api/admin/validation[?source=<kind:target>]
+// `source` must be one of the configured FEEDBACK_SOURCES, so the route can't be used to read other files or sheets.
+export async function GET(request: Request) {
+    const editor = authenticateEditor(request);
+    if (editor instanceof NextResponse) return editor;
+
+    const spec = new URL(request.url).searchParams.get('source') || undefined;
+    if (spec) {
+        const configured = getConfiguredSources().map(source => source.name);
+        if (!configured.includes(spec)) {
+            return NextResponse.json({ error: `Unknown source. Configured sources: ${configured.join(', ')}` }, { status: 400 });
+        }
+    }
+
+    try {
+        const report = await validateSource(spec);
+        console.log(`[VALIDATION] ${report.source}: ${report.errorCount} error(s), ${report.warningCount} warning(s)`);
+
+        return NextResponse.json(report);
+    } catch (error) {
+        console.error('[VALIDATION] Failed to validate source:', error);
+        return NextResponse.json({
+            error: 'Failed to validate source',
+            details: error instanceof Error ? error.message : String(error)
+        }, { status: 502 });
+    }
+}
+
+// Validates an uploaded CSV (text/csv body) before it is imported or pasted into the sheet.
+// POST /api/admin/validation
+export async function POST(request: Request) {
+    const editor = authenticateEditor(request);
+    if (editor instanceof NextResponse) return editor;
+
+    const csvText = await request.text();
+    if (!csvText.trim()) {
+        return NextResponse.json({ error: 'CSV body is required' }, { status: 400 });
+    }
+    if (csvText.length > MAX_FILE_BYTES) {
+        return NextResponse.json({ error: 'CSV file is larger than 5MB' }, { status: 413 });
+    }
+
+    return NextResponse.json(validateTable(parseCsvTable(csvText), 'upload'));
+}
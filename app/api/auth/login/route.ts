@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { clientIp } from '@/lib/auth/http';
+import { createRateLimiter } from '@/lib/auth/rate-limit';
+import { checkCredentials, createSessionToken, getSessionMaxAge, isAuthEnabled, SESSION_COOKIE } from '@/lib/auth/session';
+import { readJsonBody } from '@/lib/http';
+
+// Failed attempts allowed per IP within the window, against passcode guessing. Without TRUST_PROXY every
+// client shares the "unknown" address, and locking that would let anyone lock everyone out, so it isn't limited.
+const MAX_FAILED_ATTEMPTS = 10;
+// Every failed attempt is answered this late, which keeps guessing slow whether or not the IP is known
+const FAILED_LOGIN_DELAY_MS = 1000;
+const attempts = createRateLimiter(15 * 60 * 1000);
+
+// Signs in with the team passcode (and an allowlisted email when TEAM_ALLOWLIST is set).
+// POST /api/auth/login { passcode: string, email?: string }
+export async function POST(request: Request) {
+    if (!isAuthEnabled()) {
+        return NextResponse.json({ error: 'Login is not configured' }, { status: 503 });
+    }
+
+    const ip = clientIp(request);
+    const key = ip === 'unknown' ? null : `ip:${ip}`;
+    const retryAfter = key ? attempts.retryAfter(key, MAX_FAILED_ATTEMPTS) : 0;
+    if (retryAfter > 0) {
+        return NextResponse.json(
+            { error: 'Too many failed attempts', retryAfter },
+            { status: 429, headers: { 'Retry-After': String(retryAfter) } },
+        );
+    }
+
+    try {
+        const body = await readJsonBody(request);
+        if (body instanceof NextResponse) return body;
+        const passcode = typeof body.passcode === 'string' ? body.passcode : '';
+        const email = typeof body.email === 'string' ? body.email : '';
+
+        const user = checkCredentials(email, passcode);
+        if (!user) {
+            if (key) attempts.hit(key);
+            console.warn(`[AUTH] Failed login from ${ip}${email ? ` as ${email}` : ''}`);
+            await new Promise(resolve => setTimeout(resolve, FAILED_LOGIN_DELAY_MS));
+            return NextResponse.json({ error: 'Invalid credentials' }, { status: 401 });
+        }
+
+        console.log(`[AUTH] ${user} signed in`);
+        const response = NextResponse.json({ user });
+        response.cookies.set(SESSION_COOKIE, await createSessionToken(user), {
+            httpOnly: true,
+            sameSite: 'lax',
+            secure: process.env.NODE_ENV === 'production',
+            path: '/',
+            maxAge: getSessionMaxAge(),
+        });
+        return response;
+    } catch (error) {
+        console.error('[AUTH] Critical Error:', error);
+        return NextResponse.json({
+            error: 'Internal Server Error',
+            details: error instanceof Error ? error.message : String(error)
+        }, { status: 500 });
+    }
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import { getSession, isAllowlistEnabled, isAuthEnabled } from '@/lib/auth/session';
+
+// Whether login is on, and who is signed in. Used by the login page and the header.
+// GET /api/auth/session
+export async function GET(request: Request) {
+    const session = isAuthEnabled() ? await getSession(request) : null;
+    return NextResponse.json({
+        enabled: isAuthEnabled(),
+        emailRequired: isAllowlistEnabled(),
+        user: session?.user ?? null,
+    });
+}
@@ -0,0 +1,84 @@
+import { after, NextResponse } from 'next/server';
+import { isHelpRequest, parseChatCommand, type ChatCommand } from '@/lib/chat/command';
+import { errorReply, formatLookupReply, helpReply, type ChatReply } from '@/lib/chat/format';
+import { lookupFeedback } from '@/lib/chat/lookup';
+import { getSigningSecret, SIGNATURE_HEADER, TIMESTAMP_HEADER, verifyChatSignature } from '@/lib/chat/signature';
+import { getMaxQueryLength } from '@/lib/llm/limits';
+import { getLlmProvider } from '@/lib/llm/provider';
+
+const MAX_BODY_LENGTH = 10_000;
+const RESPONSE_URL_TIMEOUT_MS = 8000;
+
+// Permalinks must point at the public site, which isn't necessarily the host the webhook was called on
+function getBaseUrl(request: Request): string {
+    return (process.env.PUBLIC_BASE_URL || new URL(request.url).origin).replace(/\/+$/, '');
+}
+
+async function answer(command: ChatCommand, baseUrl: string): Promise<ChatReply> {
+    const lookup = await lookupFeedback(command.text, `chat:${command.user}`);
+    console.log(`[CHAT] ${command.user}: "${command.text.substring(0, 50)}" -> ${lookup.results.length} results (${lookup.mode})`);
+    return formatLookupReply(command.text, lookup, baseUrl);
+}
+
+// Incoming webhook for a chat slash command such as "/피드백 자막이 너무 많아요".
+// Requests must be signed with CHAT_SIGNING_SECRET (see lib/chat/signature.ts); replies use Slack's message format.
+// POST /api/chat/command (form-encoded or JSON: command, text, user_id, response_url?)
+export async function POST(request: Request) {
+    const secret = getSigningSecret();
+    if (!secret) {
+        return NextResponse.json({ error: 'Chat command is not configured' }, { status: 503 });
+    }
+
+    const body = await request.text();
+    if (body.length > MAX_BODY_LENGTH) {
+        return NextResponse.json({ error: 'Payload too large' }, { status: 413 });
+    }
+    if (!verifyChatSignature(body, request.headers.get(TIMESTAMP_HEADER), request.headers.get(SIGNATURE_HEADER), secret)) {
+        return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    }
+
+    let command: ChatCommand;
+    try {
+        command = parseChatCommand(body, request.headers.get('content-type') || '');
+    } catch {
+        return NextResponse.json({ error: 'Malformed command payload' }, { status: 400 });
+    }
+
+    // From here on the reply is a chat message: the chat service shows anything but a 200 as a generic failure
+    if (isHelpRequest(command)) {
+        return NextResponse.json(helpReply(command.command));
+    }
+    const maxLength = getMaxQueryLength();
+    if (maxLength && command.text.length > maxLength) {
+        return NextResponse.json(errorReply(`검색어가 너무 깁니다. ${maxLength}자 이내로 줄여주세요.`));
+    }
+
+    const baseUrl = getBaseUrl(request);
+    try {
+        // The chat service only waits 3 seconds. AI search can take longer, so it is acknowledged right away
+        // and the result is posted to response_url once ready.
+        const { responseUrl } = command;
+        if (responseUrl && getLlmProvider()) {
+            after(async () => {
+                try {
+                    const reply = await answer(command, baseUrl);
+                    const response = await fetch(responseUrl, {
+                        method: 'POST',
+                        headers: { 'Content-Type': 'application/json' },
+                        body: JSON.stringify({ ...reply, replace_original: true }),
+                        signal: AbortSignal.timeout(RESPONSE_URL_TIMEOUT_MS),
+                    });
+                    if (!response.ok) throw new Error(`response_url answered ${response.status}`);
+                } catch (error) {
+                    console.error('[CHAT] Failed to post the delayed reply:', error);
+                }
+            });
+            return NextResponse.json({ response_type: 'ephemeral', text: '🔍 찾는 중입니다...' } satisfies ChatReply);
+        }
+
+        return NextResponse.json(await answer(command, baseUrl));
+    } catch (error) {
+        console.error('[CHAT] Critical Error:', error);
+        return NextResponse.json(errorReply('검색 중 오류가 발생했습니다. 잠시 후 다시 시도해주세요.'));
+    }
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { creatorErrorResponse } from '@/lib/creators/http';
+import { deleteSent } from '@/lib/creators/store';
+
+// Removes one mistaken record from a creator's timeline.
+// DELETE /api/creators/:id/history/:recordId
+export async function DELETE(_request: Request, { params }: { params: Promise<{ id: string; recordId: string }> }) {
+    try {
+        const { id, recordId } = await params;
+        await deleteSent(id, recordId);
+        return new NextResponse(null, { status: 204 });
+    } catch (error) {
+        return creatorErrorResponse(error);
+    }
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { creatorErrorResponse } from '@/lib/creators/http';
+import { getHistory, recordSent } from '@/lib/creators/store';
+import type { SendRecord } from '@/lib/creators/types';
+import { getFeedback } from '@/lib/feedback/cache';
+import { readJsonBody } from '@/lib/http';
+
+const MAX_RECORDS_PER_REQUEST = 50;
+const MAX_TEXT_LENGTH = 5000;
+
+type Params = { params: Promise<{ id: string }> };
+
+// The creator's timeline of feedback received, newest first.
+// GET /api/creators/:id/history
+export async function GET(_request: Request, { params }: Params) {
+    try {
+        const { id } = await params;
+        return NextResponse.json(await getHistory(id));
+    } catch (error) {
+        return creatorErrorResponse(error);
+    }
+}
+
+function parseRecord(raw: unknown): SendRecord | null {
+    if (!raw || typeof raw !== 'object') return null;
+    const { entryId, version, text } = raw as Record<string, unknown>;
+    if (typeof entryId !== 'string' || !entryId) return null;
+    return {
+        entryId,
+        version: typeof version === 'string' ? version.slice(0, 20) : '',
+        text: typeof text === 'string' ? text.slice(0, MAX_TEXT_LENGTH) : '',
+    };
+}
+
+// Records solutions as sent to the creator (after a copy, or a basket export).
+// POST /api/creators/:id/history { items: [{ entryId, version, text }] }
+export async function POST(request: Request, { params }: Params) {
+    try {
+        const { id } = await params;
+        const body = await readJsonBody(request);
+        if (body instanceof NextResponse) return body;
+        const raw: unknown[] = Array.isArray(body.items) ? body.items : [];
+        const records = raw
+            .slice(0, MAX_RECORDS_PER_REQUEST)
+            .map(parseRecord)
+            .filter((record): record is SendRecord => record !== null);
+
+        if (records.length === 0) {
+            return NextResponse.json({ error: 'At least one item is required' }, { status: 400 });
+        }
+
+        const { items } = await getFeedback();
+        const sent = await recordSent(id, records, items);
+        return NextResponse.json({ sent }, { status: 201 });
+    } catch (error) {
+        return creatorErrorResponse(error);
+    }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { creatorErrorResponse } from '@/lib/creators/http';
+import { deleteCreator, updateCreator } from '@/lib/creators/store';
+import { readJsonBody } from '@/lib/http';
+
+type Params = { params: Promise<{ id: string }> };
+
+// PATCH /api/creators/:id { name?, channel? }
+export async function PATCH(request: Request, { params }: Params) {
+    try {
+        const { id } = await params;
+        const body = await readJsonBody(request);
+        if (body instanceof NextResponse) return body;
+        return NextResponse.json({ creator: await updateCreator(id, body.name, body.channel) });
+    } catch (error) {
+        return creatorErrorResponse(error);
+    }
+}
+
+// Deletes the creator and everything recorded for them.
+// DELETE /api/creators/:id
+export async function DELETE(_request: Request, { params }: Params) {
+    try {
+        const { id } = await params;
+        await deleteCreator(id);
+        return new NextResponse(null, { status: 204 });
+    } catch (error) {
+        return creatorErrorResponse(error);
+    }
+}
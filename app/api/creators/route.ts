@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { creatorErrorResponse } from '@/lib/creators/http';
+import { createCreator, listCreators } from '@/lib/creators/store';
+import { readJsonBody } from '@/lib/http';
+
+// GET /api/creators
+export async function GET() {
+    try {
+        return NextResponse.json({ creators: await listCreators() });
+    } catch (error) {
+        return creatorErrorResponse(error);
+    }
+}
+
+// POST /api/creators { name, channel }
+export async function POST(request: Request) {
+    try {
+        const body = await readJsonBody(request);
+        if (body instanceof NextResponse) return body;
+        const creator = await createCreator(body.name, body.channel);
+        return NextResponse.json({ creator }, { status: 201 });
+    } catch (error) {
+        return creatorErrorResponse(error);
+    }
+}
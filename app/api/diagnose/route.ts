@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { identifyRequester } from '@/lib/auth/http';
+import { diagnoseDraft } from '@/lib/diagnosis/diagnose';
+import { readJsonBody } from '@/lib/http';
+import { aiLimitResponse, consumeAiQuota } from '@/lib/llm/limits';
+import { getLlmProvider } from '@/lib/llm/provider';
+
+const MAX_DRAFT_LENGTH = 5000;
+
+// Draft diagnosis: splits a pasted script/caption into sentences and attaches
+// encyclopedia problems to each one.
+// POST /api/diagnose { draft: string }
+// Counts towards the AI limits when an LLM is configured; without one the local index does the matching.
+export async function POST(request: Request) {
+    try {
+        const requester = await identifyRequester(request);
+        if (requester instanceof NextResponse) return requester;
+
+        const body = await readJsonBody(request);
+        if (body instanceof NextResponse) return body;
+        const draft = typeof body.draft === 'string' ? body.draft : '';
+
+        if (!draft.trim()) {
+            return NextResponse.json({ error: 'Draft is required' }, { status: 400 });
+        }
+        if (draft.length > MAX_DRAFT_LENGTH) {
+            return NextResponse.json({ error: `Draft is longer than ${MAX_DRAFT_LENGTH} characters` }, { status: 413 });
+        }
+
+        const exceeded = getLlmProvider() ? await consumeAiQuota(requester) : null;
+        if (exceeded) {
+            console.warn(`[DIAGNOSIS] ${requester} hit the ${exceeded.scope} limit`);
+            return aiLimitResponse(exceeded);
+        }
+
+        console.log(`[DIAGNOSIS] Received draft of ${draft.length} characters.`);
+        const diagnosis = await diagnoseDraft(draft);
+
+        return NextResponse.json(diagnosis, {
+            headers: { 'X-Feedback-Source': diagnosis.source },
+        });
+    } catch (error) {
+        console.error('[DIAGNOSIS] Critical Error:', error);
+        return NextResponse.json({
+            error: 'Internal Server Error',
+            details: error instanceof Error ? error.message : String(error)
+        }, { status: 500 });
+    }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { parseEvent } from '@/lib/analytics/events';
+import { recordEvents } from '@/lib/analytics/store';
+import type { ClientEvent } from '@/lib/analytics/types';
+import { identifyRequester } from '@/lib/auth/http';
+import { createRateLimiter } from '@/lib/auth/rate-limit';
+import { readJsonBody } from '@/lib/http';
+
+const MAX_EVENTS_PER_REQUEST = 50;
+// Batches per user (or per IP when login is off) per minute; the page flushes at most every 2 seconds
+const MAX_BATCHES_PER_MINUTE = 60;
+const batches = createRateLimiter(60 * 1000);
+
+// Usage event ingest. Malformed events are dropped rather than failing the batch.
+// POST /api/events { events: ClientEvent[] }
+export async function POST(request: Request) {
+    const requester = await identifyRequester(request);
+    if (requester instanceof NextResponse) return requester;
+
+    const retryAfter = batches.retryAfter(requester, MAX_BATCHES_PER_MINUTE);
+    if (retryAfter > 0) {
+        return NextResponse.json(
+            { error: 'Too many event batches', retryAfter },
+            { status: 429, headers: { 'Retry-After': String(retryAfter) } },
+        );
+    }
+    batches.hit(requester);
+
+    try {
+        const body = await readJsonBody(request);
+        if (body instanceof NextResponse) return body;
+        const raw: unknown[] = Array.isArray(body?.events) ? body.events : [];
+        const events = raw
+            .slice(0, MAX_EVENTS_PER_REQUEST)
+            .map(parseEvent)
+            .filter((event): event is ClientEvent => event !== null);
+
+        await recordEvents(events, 'client');
+        return new NextResponse(null, { status: 204 });
+    } catch (error) {
+        console.error('[ANALYTICS] Failed to ingest events:', error);
+        return NextResponse.json({ error: 'Invalid event batch' }, { status: 400 });
+    }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { getFeedback } from '@/lib/feedback/cache';
+import { groupByCategory } from '@/lib/feedback/export';
+import { feedbackHeaders, isNotModified } from '@/lib/feedback/http';
+
+// Categories in sheet order with their entry counts, and the subcategories used in each.
+// GET /api/feedback/categories
+export async function GET(request: Request) {
+    try {
+        const feedback = await getFeedback();
+        const headers = feedbackHeaders(feedback);
+
+        if (isNotModified(request, feedback)) {
+            return new NextResponse(null, { status: 304, headers });
+        }
+
+        const categories = [...groupByCategory(feedback.items)].map(([name, items]) => {
+            const subcategories = new Map<string, number>();
+            for (const { subcategory } of items) {
+                if (subcategory) subcategories.set(subcategory, (subcategories.get(subcategory) ?? 0) + 1);
+            }
+            return {
+                name,
+                count: items.length,
+                subcategories: Array.from(subcategories, ([sub, count]) => ({ name: sub, count })),
+            };
+        });
+
+        return NextResponse.json({ total: feedback.items.length, categories }, { headers });
+    } catch (error) {
+        console.error('Error loading feedback data:', error);
+        return NextResponse.json({ error: 'Failed to fetch data' }, { status: 500 });
+    }
+}
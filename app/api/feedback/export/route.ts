@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { EXPORT_CONTENT_TYPES, EXPORT_FORMATS, exportFeedback, type ExportFormat } from '@/lib/feedback/export';
+import { feedbackHeaders } from '@/lib/feedback/http';
+import { filterFeedback, FeedbackQueryError, parseFeedbackQuery } from '@/lib/feedback/query';
+import { getSearchIndex } from '@/lib/search/server';
+
+// Offline copy of the encyclopedia. Takes the same filters as /api/feedback (pagination and fields are ignored).
+// GET /api/feedback/export?format=csv|md|html[&category=...]
+// The HTML handbook opens in the browser, ready to print; CSV and Markdown download as files.
+export async function GET(request: Request) {
+    const { searchParams } = new URL(request.url);
+    const format = (searchParams.get('format') || 'html') as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+        return NextResponse.json({ error: `Unknown format "${format}". Available: ${EXPORT_FORMATS.join(', ')}` }, { status: 400 });
+    }
+
+    try {
+        const query = parseFeedbackQuery(searchParams);
+        const { feedback, index } = await getSearchIndex();
+        const disposition = format === 'html' ? 'inline' : 'attachment';
+
+        return new NextResponse(exportFeedback(filterFeedback(index, query), format), {
+            headers: {
+                ...feedbackHeaders(feedback),
+                'Content-Type': EXPORT_CONTENT_TYPES[format],
+                'Content-Disposition': `${disposition}; filename="feedback-encyclopedia.${format}"`,
+            },
+        });
+    } catch (error) {
+        if (error instanceof FeedbackQueryError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error('Error exporting feedback data:', error);
+        return NextResponse.json({ error: 'Failed to export data' }, { status: 500 });
+    }
+}
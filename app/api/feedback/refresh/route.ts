@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { refreshFeedback } from '@/lib/feedback/cache';
+
+// Forces the server-side cache to reload, e.g. right after an editor changes the sheet.
+// Callers must send FEEDBACK_REFRESH_TOKEN as a Bearer token; without one configured the route is off.
+export async function POST(request: Request) {
+    const token = process.env.FEEDBACK_REFRESH_TOKEN;
+    if (!token) {
+        return NextResponse.json({ error: 'Refresh is not configured' }, { status: 503 });
+    }
+    if (request.headers.get('authorization') !== `Bearer ${token}`) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const feedback = await refreshFeedback();
+        console.log(`[FEEDBACK-CACHE] Refreshed ${feedback.items.length} items from ${feedback.source}`);
+
+        return NextResponse.json({
+            count: feedback.items.length,
+            source: feedback.source,
+            fallback: feedback.fallback,
+            etag: feedback.etag,
+            lastModified: feedback.lastModified.toUTCString(),
+        });
+    } catch (error) {
+        console.error('Error refreshing feedback cache:', error);
+        return NextResponse.json({ error: 'Failed to refresh data' }, { status: 500 });
+    }
+}
@@ -1,31 +1,34 @@
 import { NextResponse } from 'next/server';
-import Papa from 'papaparse';
+import { feedbackHeaders, isNotModified } from '@/lib/feedback/http';
+import { filterFeedback, FeedbackQueryError, paginateFeedback, parseFeedbackQuery } from '@/lib/feedback/query';
+import { getSearchIndex } from '@/lib/search/server';
 
-const SHEET_ID = '1kbOoBSrI1yHj0yEtexhFA6H_QuJL2IkzXFh9uaCSKsQ';
-const CSV_URL = `https://docs.google.com/spreadsheets/d/${SHEET_ID}/export?format=csv`;
-
-export async function GET() {
+// The read API: published entries, filtered and paginated (parameters in lib/feedback/query.ts).
+// GET /api/feedback                  the whole list as a bare array, as it has always been returned
+// GET /api/feedback?category=...&sub=...&tag=...&severity=...&q=...&limit=...&offset=...&fields=id,problem
+//                                    { total, offset, limit, items }: any parameter switches to the paged shape
+export async function GET(request: Request) {
     try {
-        const response = await fetch(CSV_URL, { cache: 'no-store' }); // Ensure fresh data
-        const csvText = await response.text();
-
-        const parsed = Papa.parse(csvText, {
-            header: true,
-            skipEmptyLines: true,
-        });
+        const { searchParams } = new URL(request.url);
+        const isPaged = [...searchParams.keys()].length > 0;
+        const query = parseFeedbackQuery(searchParams);
+        const { feedback, index } = await getSearchIndex();
+        const headers = feedbackHeaders(feedback);
 
-        // Map the CSV columns to our internal structure
-        // Expected CSV Headers: 대분류, 문제점, 솔루션 (버전1), 솔루션 (버전2)
-        const data = parsed.data.map((row: any) => ({
-            category: row['대분류'] || '기타',
-            problem: row['문제점'] || '',
-            solution1: row['솔루션 (버전1)'] || row['솔루션'] || '',
-            solution2: row['솔루션 (버전2)'] || '',
-        })).filter((item: any) => item.problem && (item.solution1 || item.solution2)); // Filter out empty rows
+        // The validators describe the underlying data, so they hold for every filtered view of it too
+        if (isNotModified(request, feedback)) {
+            return new NextResponse(null, { status: 304, headers });
+        }
 
-        return NextResponse.json(data);
+        if (!isPaged) {
+            return NextResponse.json(feedback.items, { headers });
+        }
+        return NextResponse.json(paginateFeedback(filterFeedback(index, query), query), { headers });
     } catch (error) {
-        console.error('Error fetching Google Sheet:', error);
+        if (error instanceof FeedbackQueryError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error('Error loading feedback data:', error);
         return NextResponse.json({ error: 'Failed to fetch data' }, { status: 500 });
     }
 }
@@ -0,0 +1,91 @@
+import { NextResponse } from 'next/server';
+import { identifyRequester } from '@/lib/auth/http';
+import { getFeedback } from '@/lib/feedback/cache';
+import { pickVariant } from '@/lib/feedback/variants';
+import { readJsonBody } from '@/lib/http';
+import { aiLimitResponse, consumeAiQuota } from '@/lib/llm/limits';
+import { buildPersonalizePrompt, parsePersonalized, PERSONALIZE_SYSTEM_PROMPT } from '@/lib/llm/personalize';
+import { describeProvider, getLlmProvider } from '@/lib/llm/provider';
+
+const MAX_DRAFT_LENGTH = 5000;
+
+// Rewrites one entry's solution so its examples reference the creator's own video.
+// POST /api/personalize { id: string, variant?: string, draft: string }
+// `variant` is a solution label (a 1-based position also works); the entry's first variant is the default.
+export async function POST(request: Request) {
+    try {
+        const requester = await identifyRequester(request);
+        if (requester instanceof NextResponse) return requester;
+
+        const body = await readJsonBody(request);
+        if (body instanceof NextResponse) return body;
+        const id = typeof body.id === 'string' ? body.id : '';
+        const preferred = typeof body.variant === 'string' || typeof body.variant === 'number' ? String(body.variant) : null;
+        const draft = typeof body.draft === 'string' ? body.draft.trim() : '';
+
+        if (!id || !draft) {
+            return NextResponse.json({ error: 'Entry id and draft are required' }, { status: 400 });
+        }
+        if (draft.length > MAX_DRAFT_LENGTH) {
+            return NextResponse.json({ error: `Draft is longer than ${MAX_DRAFT_LENGTH} characters` }, { status: 413 });
+        }
+
+        const provider = getLlmProvider();
+        if (!provider) {
+            return NextResponse.json({ error: 'API Key missing on server' }, { status: 503 });
+        }
+        const providerName = describeProvider(provider);
+
+        // The entry is looked up on the server so only encyclopedia content is ever rewritten
+        const { items, source } = await getFeedback();
+        const item = items.find(entry => entry.id === id);
+        if (!item) {
+            return NextResponse.json({ error: 'Entry not found' }, { status: 404 });
+        }
+        const variant = pickVariant(item, preferred);
+        if (!variant) {
+            return NextResponse.json({ error: 'Entry has no solution' }, { status: 404 });
+        }
+        const solution = variant.text;
+
+        const exceeded = await consumeAiQuota(requester);
+        if (exceeded) {
+            console.warn(`[PERSONALIZE] ${requester} hit the ${exceeded.scope} limit`);
+            return aiLimitResponse(exceeded);
+        }
+
+        console.log(`[PERSONALIZE] Rewriting "${item.problem.substring(0, 30)}" (${variant.label}) with ${providerName}...`);
+
+        const responseText = await provider.generate({
+            system: PERSONALIZE_SYSTEM_PROMPT,
+            prompt: buildPersonalizePrompt({ category: item.category, problem: item.problem, solution }, draft),
+            json: true,
+        });
+
+        let text: string;
+        try {
+            text = parsePersonalized(responseText);
+        } catch (e) {
+            console.error('[PERSONALIZE] JSON Parse Error. Raw text was:', responseText, e);
+            throw new Error('Failed to parse AI response');
+        }
+
+        return NextResponse.json({
+            text,
+            original: solution,
+            variant: variant.label,
+            provider: providerName,
+        }, {
+            headers: {
+                'X-Feedback-Source': source,
+                'X-LLM-Provider': providerName,
+            },
+        });
+    } catch (error) {
+        console.error('[PERSONALIZE] Critical Error:', error);
+        return NextResponse.json({
+            error: 'Internal Server Error',
+            details: error instanceof Error ? error.message : String(error)
+        }, { status: 500 });
+    }
+}
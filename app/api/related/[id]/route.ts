@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { DEFAULT_RELATED_LIMIT, getRelated } from '@/lib/related/server';
+
+const MAX_LIMIT = 20;
+
+// "See also" entries for one entry: curated links first, then by text similarity and AI search co-occurrence.
+// GET /api/related/:id?limit=...
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const limit = Number(searchParams.get('limit') || DEFAULT_RELATED_LIMIT);
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+        return NextResponse.json({ error: `Query parameter "limit" must be an integer from 1 to ${MAX_LIMIT}` }, { status: 400 });
+    }
+
+    try {
+        const result = await getRelated(id, limit);
+        if (!result) {
+            return NextResponse.json({ error: 'Entry not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({
+            id,
+            related: result.related.map(({ item, score, reasons }) => ({ ...item, score, reasons })),
+        }, {
+            headers: { 'X-Feedback-Source': result.feedback.source },
+        });
+    } catch (error) {
+        console.error('[RELATED] Error:', error);
+        return NextResponse.json({ error: 'Failed to load related entries' }, { status: 500 });
+    }
+}
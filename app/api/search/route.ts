@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { search } from '@/lib/search/engine';
+import { getSearchIndex } from '@/lib/search/server';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+// Local ranked full-text search. Also the fallback used by the page when AI search is unavailable.
+// GET /api/search?q=...&category=...&limit=...
+export async function GET(request: Request) {
+    const { searchParams } = new URL(request.url);
+    const query = searchParams.get('q')?.trim() || '';
+    const category = searchParams.get('category') || undefined;
+    const limit = Number(searchParams.get('limit') || DEFAULT_LIMIT);
+
+    if (!query) {
+        return NextResponse.json({ error: 'Query parameter "q" is required' }, { status: 400 });
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+        return NextResponse.json({ error: `Query parameter "limit" must be an integer from 1 to ${MAX_LIMIT}` }, { status: 400 });
+    }
+
+    try {
+        const { feedback, index } = await getSearchIndex();
+        const hits = search(index, query, { category, limit });
+
+        return NextResponse.json({
+            query,
+            total: hits.length,
+            results: hits.map(({ item, score, terms }) => ({
+                ...item,
+                score: Math.round(score * 1000) / 1000,
+                terms,
+            })),
+        }, {
+            headers: { 'X-Feedback-Source': feedback.source },
+        });
+    } catch (error) {
+        console.error('[SEARCH] Error:', error);
+        return NextResponse.json({ error: 'Failed to search data' }, { status: 500 });
+    }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { semanticSearch } from '@/lib/semantic/server';
+
+const DEFAULT_K = 10;
+const MAX_K = 50;
+
+// Embedding-based retrieval: cosine-similarity top-k over the precomputed vector index.
+// GET /api/semantic-search?q=...&k=...
+export async function GET(request: Request) {
+    const { searchParams } = new URL(request.url);
+    const query = searchParams.get('q')?.trim() || '';
+    const k = Number(searchParams.get('k') || DEFAULT_K);
+
+    if (!query) {
+        return NextResponse.json({ error: 'Query parameter "q" is required' }, { status: 400 });
+    }
+    if (!Number.isInteger(k) || k < 1 || k > MAX_K) {
+        return NextResponse.json({ error: `Query parameter "k" must be an integer from 1 to ${MAX_K}` }, { status: 400 });
+    }
+
+    try {
+        const { feedback, embedderId, hits } = await semanticSearch(query, k);
+
+        return NextResponse.json({
+            query,
+            embedder: embedderId,
+            results: hits.map(({ item, score }) => ({
+                ...item,
+                score: Math.round(score * 1000) / 1000,
+            })),
+        }, {
+            headers: { 'X-Feedback-Source': feedback.source },
+        });
+    } catch (error) {
+        console.error('[SEMANTIC] Error:', error);
+        return NextResponse.json({ error: 'Failed to search data' }, { status: 500 });
+    }
+}
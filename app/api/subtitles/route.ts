@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server';
+import { identifyRequester } from '@/lib/auth/http';
+import { readJsonBody } from '@/lib/http';
+import { aiLimitResponse, consumeAiQuota } from '@/lib/llm/limits';
+import { getLlmProvider } from '@/lib/llm/provider';
+import { formatReportMarkdown } from '@/lib/subtitles/markdown';
+import { buildSubtitleReport, parseSubtitleFile, SubtitleError } from '@/lib/subtitles/report';
+
+const MAX_FILE_BYTES = 1024 * 1024;
+
+async function readContent(request: Request): Promise<{ content: string; filename: string } | NextResponse> {
+    if (request.headers.get('content-type')?.includes('multipart/form-data')) {
+        const form = await request.formData();
+        const file = form.get('file');
+        if (file instanceof File) {
+            return { content: await file.text(), filename: file.name };
+        }
+        return { content: '', filename: '' };
+    }
+
+    const body = await readJsonBody(request);
+    if (body instanceof NextResponse) return body;
+    return {
+        content: typeof body.content === 'string' ? body.content : '',
+        filename: typeof body.filename === 'string' ? body.filename : '',
+    };
+}
+
+// Subtitle import: parses an SRT/WebVTT file and returns a timestamped feedback report.
+// POST /api/subtitles (multipart "file" field, or JSON { content, filename }) [?format=markdown]
+// Counts towards the AI limits when an LLM is configured, like /api/diagnose. Files over MAX_SUBTITLE_CUES get a 413.
+export async function POST(request: Request) {
+    try {
+        const requester = await identifyRequester(request);
+        if (requester instanceof NextResponse) return requester;
+
+        if (Number(request.headers.get('content-length')) > MAX_FILE_BYTES) {
+            return NextResponse.json({ error: 'Subtitle file is larger than 1MB' }, { status: 413 });
+        }
+
+        const upload = await readContent(request);
+        if (upload instanceof NextResponse) return upload;
+        const { content, filename } = upload;
+        if (!content.trim()) {
+            return NextResponse.json({ error: 'Subtitle file is required' }, { status: 400 });
+        }
+        if (content.length > MAX_FILE_BYTES) {
+            return NextResponse.json({ error: 'Subtitle file is larger than 1MB' }, { status: 413 });
+        }
+
+        // Checked before the AI quota so a file that can't be reported on doesn't use it up
+        const cues = parseSubtitleFile(content);
+
+        const exceeded = getLlmProvider() ? await consumeAiQuota(requester) : null;
+        if (exceeded) {
+            console.warn(`[SUBTITLES] ${requester} hit the ${exceeded.scope} limit`);
+            return aiLimitResponse(exceeded);
+        }
+
+        const report = await buildSubtitleReport(content, cues);
+
+        console.log(`[SUBTITLES] ${filename || 'upload'}: ${report.cueCount} cues, ${report.entries.length} entries (${report.mode}).`);
+
+        const { searchParams } = new URL(request.url);
+        if (searchParams.get('format') === 'markdown') {
+            const basename = (filename || 'subtitles').replace(/\.(srt|vtt)$/i, '');
+            return new NextResponse(formatReportMarkdown(report, `자막 피드백 리포트: ${basename}`), {
+                headers: {
+                    'Content-Type': 'text/markdown; charset=utf-8',
+                    'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(basename)}-feedback.md`,
+                    'X-Feedback-Source': report.source,
+                },
+            });
+        }
+
+        return NextResponse.json(report, {
+            headers: { 'X-Feedback-Source': report.source },
+        });
+    } catch (error) {
+        if (error instanceof SubtitleError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error('[SUBTITLES] Critical Error:', error);
+        return NextResponse.json({
+            error: 'Internal Server Error',
+            details: error instanceof Error ? error.message : String(error)
+        }, { status: 500 });
+    }
+}
@@ -0,0 +1,31 @@
+"use client";
+
+import { useState } from "react";
+
+type CopyButtonProps = {
+  text: string;
+  label: string;
+};
+
+// Copies `text` to the clipboard; lets server-rendered pages offer a copy action.
+export default function CopyButton({ text, label }: CopyButtonProps) {
+  const [isCopied, setIsCopied] = useState(false);
+
+  const copy = () => {
+    navigator.clipboard.writeText(text);
+    setIsCopied(true);
+    setTimeout(() => setIsCopied(false), 2000);
+  };
+
+  return (
+    <button
+      onClick={copy}
+      className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${isCopied
+        ? "bg-green-100 text-green-700"
+        : "bg-blue-100 text-blue-600 hover:bg-blue-200 hover:text-blue-700"
+        }`}
+    >
+      {isCopied ? "복사됨" : label}
+    </button>
+  );
+}
@@ -0,0 +1,72 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import type { Creators } from "../hooks/useCreators";
+
+const NEW_CREATOR = "__new__";
+
+// Header control for choosing which creator the coach is working on. Cards then show what was already sent.
+export default function CreatorPicker({ creators }: { creators: Creators }) {
+  const [isAdding, setIsAdding] = useState(false);
+  const [name, setName] = useState("");
+  const [channel, setChannel] = useState("");
+
+  const add = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    try {
+      await creators.addCreator(name, channel);
+      setIsAdding(false);
+      setName("");
+      setChannel("");
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "크리에이터를 추가하지 못했습니다.");
+    }
+  };
+
+  if (isAdding) {
+    return (
+      <form onSubmit={add} className="flex items-center gap-1.5">
+        <input
+          autoFocus
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="이름"
+          className="w-24 text-xs border border-gray-200 rounded-lg px-2 py-1 focus:outline-none focus:border-blue-500"
+        />
+        <input
+          value={channel}
+          onChange={(e) => setChannel(e.target.value)}
+          placeholder="채널"
+          className="w-28 text-xs border border-gray-200 rounded-lg px-2 py-1 focus:outline-none focus:border-blue-500"
+        />
+        <button type="submit" className="text-xs font-bold text-blue-600 hover:underline">추가</button>
+        <button type="button" onClick={() => setIsAdding(false)} className="text-xs font-bold text-gray-400 hover:text-gray-600">취소</button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-1.5">
+      <select
+        value={creators.selected?.id ?? ""}
+        onChange={(e) => (e.target.value === NEW_CREATOR ? setIsAdding(true) : creators.select(e.target.value))}
+        className={`text-xs font-bold rounded-lg px-2 py-1 border ${creators.selected ? "border-blue-200 bg-blue-50 text-blue-700" : "border-gray-200 bg-white text-gray-500"}`}
+      >
+        <option value="">👤 크리에이터 선택 안 함</option>
+        {creators.creators.map((creator) => (
+          <option key={creator.id} value={creator.id}>
+            👤 {creator.name}{creator.channel && ` (${creator.channel})`}
+          </option>
+        ))}
+        <option value={NEW_CREATOR}>+ 새 크리에이터</option>
+      </select>
+      {creators.selected && (
+        <Link href="/creators" className="text-xs font-bold text-gray-400 hover:text-gray-700" title="피드백 기록 보기">
+          기록
+        </Link>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+"use client";
+
+import { useState } from "react";
+import type { EditorFields } from "@/lib/editor/types";
+import { parseTags, SEVERITIES, SEVERITY_LABELS, type Severity } from "@/lib/feedback/taxonomy";
+import type { SolutionVariant } from "@/lib/feedback/types";
+
+type EntryFormProps = {
+  initial?: EditorFields;
+  categories: string[];
+  submitLabel: string;
+  onSubmit: (fields: EditorFields) => Promise<void>;
+  onCancel: () => void;
+};
+
+const EMPTY_FIELDS: EditorFields = { category: "", problem: "", solutions: [{ label: "버전1", text: "" }] };
+
+const inputClass = "w-full text-sm border border-gray-200 rounded-lg p-2.5 focus:outline-none focus:border-blue-500";
+
+// Create / edit form for one encyclopedia entry.
+export default function EntryForm({ initial = EMPTY_FIELDS, categories, submitLabel, onSubmit, onCancel }: EntryFormProps) {
+  const [fields, setFields] = useState<EditorFields>(initial);
+  // Kept as typed so a trailing comma isn't swallowed; split into tags on submit
+  const [tagsText, setTagsText] = useState((initial.tags ?? []).join(", "));
+  const [relatedText, setRelatedText] = useState((initial.related ?? []).join(", "));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const set = (key: "category" | "subcategory" | "problem") => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    setFields((prev) => ({ ...prev, [key]: e.target.value }));
+
+  const setVariant = (index: number, key: keyof SolutionVariant) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    setFields((prev) => ({
+      ...prev,
+      solutions: prev.solutions.map((variant, i) => (i === index ? { ...variant, [key]: e.target.value } : variant)),
+    }));
+
+  const addVariant = () =>
+    setFields((prev) => ({ ...prev, solutions: [...prev.solutions, { label: `버전${prev.solutions.length + 1}`, text: "" }] }));
+
+  const removeVariant = (index: number) =>
+    setFields((prev) => ({ ...prev, solutions: prev.solutions.filter((_, i) => i !== index) }));
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      await onSubmit({ ...fields, tags: parseTags(tagsText), related: relatedText.split(/[,\s]+/).filter(Boolean) });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className="space-y-3">
+      <label className="block">
+        <span className="text-xs font-bold text-gray-500">대분류</span>
+        <input value={fields.category} onChange={set("category")} list="editor-categories" className={inputClass} />
+        <datalist id="editor-categories">
+          {categories.map((category) => <option key={category} value={category} />)}
+        </datalist>
+      </label>
+      <label className="block">
+        <span className="text-xs font-bold text-gray-500">중분류</span>
+        <input value={fields.subcategory ?? ""} onChange={set("subcategory")} className={inputClass} />
+      </label>
+      <label className="block">
+        <span className="text-xs font-bold text-gray-500">문제점</span>
+        <input value={fields.problem} onChange={set("problem")} className={inputClass} />
+      </label>
+      {fields.solutions.map((variant, index) => (
+        <div key={index} className="border border-gray-100 rounded-lg p-2.5 space-y-2">
+          <div className="flex items-center gap-2">
+            <span className="text-xs font-bold text-gray-500 shrink-0">솔루션</span>
+            <input value={variant.label} onChange={setVariant(index, "label")} placeholder="이름 (예: 버전1, 직설)" className={inputClass} />
+            <input value={variant.tone ?? ""} onChange={setVariant(index, "tone")} placeholder="톤" className={`${inputClass} max-w-24`} />
+            <input value={variant.length ?? ""} onChange={setVariant(index, "length")} placeholder="길이" className={`${inputClass} max-w-24`} />
+            <button
+              type="button"
+              onClick={() => removeVariant(index)}
+              disabled={fields.solutions.length === 1}
+              className="px-1.5 text-gray-400 hover:text-red-600 disabled:opacity-30"
+              title="삭제"
+            >
+              ✕
+            </button>
+          </div>
+          <textarea value={variant.text} onChange={setVariant(index, "text")} rows={5} className={inputClass} />
+        </div>
+      ))}
+      <button type="button" onClick={addVariant} className="text-xs font-bold text-blue-600 hover:underline">
+        + 솔루션 추가
+      </button>
+      <div className="flex gap-2">
+        <label className="block flex-1">
+          <span className="text-xs font-bold text-gray-500">태그 (쉼표로 구분)</span>
+          <input value={tagsText} onChange={(e) => setTagsText(e.target.value)} placeholder="자막, 가독성" className={inputClass} />
+        </label>
+        <label className="block">
+          <span className="text-xs font-bold text-gray-500">심각도</span>
+          <select
+            value={fields.severity ?? ""}
+            onChange={(e) => setFields((prev) => ({ ...prev, severity: (e.target.value || undefined) as Severity | undefined }))}
+            className={inputClass}
+          >
+            <option value="">없음</option>
+            {SEVERITIES.map((severity) => <option key={severity} value={severity}>{SEVERITY_LABELS[severity]}</option>)}
+          </select>
+        </label>
+      </div>
+      <label className="block">
+        <span className="text-xs font-bold text-gray-500">관련 항목 ID (쉼표로 구분, &lsquo;함께 보면 좋은 피드백&rsquo;에 먼저 표시)</span>
+        <input value={relatedText} onChange={(e) => setRelatedText(e.target.value)} className={inputClass} />
+      </label>
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={isSaving || !fields.problem.trim() || !fields.solutions.some((variant) => variant.text.trim())}
+          className="px-4 py-2 rounded-lg text-sm font-bold bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-100 disabled:text-gray-400"
+        >
+          {isSaving ? "저장 중..." : submitLabel}
+        </button>
+        <button type="button" onClick={onCancel} className="px-4 py-2 rounded-lg text-sm font-bold bg-gray-100 text-gray-600 hover:bg-gray-200">
+          취소
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,82 @@
+"use client";
+
+import { SEVERITY_LABELS, type Severity } from "@/lib/feedback/taxonomy";
+import type { FacetName, FacetValue } from "@/lib/search/facets";
+
+export type SortOrder = "default" | "severity";
+
+type FacetFiltersProps = {
+  counts: Record<FacetName, FacetValue[]>;
+  selected: Record<FacetName, string[]>;
+  onToggle: (facet: FacetName, value: string) => void;
+  sort: SortOrder;
+  onSortChange: (sort: SortOrder) => void;
+};
+
+// The most used tags; selected ones are always shown
+const MAX_TAGS = 20;
+
+function Chips({ label, facet, values, selected, format, onToggle }: {
+  label: string;
+  facet: FacetName;
+  values: FacetValue[];
+  selected: string[];
+  format?: (value: string) => string;
+  onToggle: FacetFiltersProps["onToggle"];
+}) {
+  if (values.length === 0) return null;
+
+  return (
+    <div className="flex items-start gap-2">
+      <span className="flex-shrink-0 w-14 pt-1 text-xs font-bold text-gray-400">{label}</span>
+      <div className="flex flex-wrap gap-1.5">
+        {values.map(({ value, count }) => {
+          const isSelected = selected.includes(value);
+          return (
+            <button
+              key={value}
+              onClick={() => onToggle(facet, value)}
+              disabled={!isSelected && count === 0}
+              className={`px-2.5 py-1 rounded-lg text-xs font-bold border transition-colors disabled:opacity-40 ${isSelected
+                ? "bg-gray-900 text-white border-gray-900"
+                : "bg-white text-gray-600 border-gray-200 hover:border-gray-300"
+                }`}
+            >
+              {format ? format(value) : value} <span className={isSelected ? "text-gray-300" : "text-gray-400"}>{count}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+// Subcategory, tag and severity filters under the category buttons. Counts follow the search query
+// and the other selected filters.
+export default function FacetFilters({ counts, selected, onToggle, sort, onSortChange }: FacetFiltersProps) {
+  return (
+    <div className="space-y-2">
+      <Chips label="중분류" facet="subcategories" values={counts.subcategories} selected={selected.subcategories} onToggle={onToggle} />
+      <Chips label="태그" facet="tags" values={counts.tags.filter((tag, i) => i < MAX_TAGS || selected.tags.includes(tag.value))} selected={selected.tags} format={(tag) => `#${tag}`} onToggle={onToggle} />
+      <Chips
+        label="심각도"
+        facet="severities"
+        values={counts.severities}
+        selected={selected.severities}
+        format={(severity) => SEVERITY_LABELS[severity as Severity] ?? severity}
+        onToggle={onToggle}
+      />
+      <div className="flex items-center gap-2">
+        <span className="flex-shrink-0 w-14 text-xs font-bold text-gray-400">정렬</span>
+        <select
+          value={sort}
+          onChange={(e) => onSortChange(e.target.value as SortOrder)}
+          className="text-xs font-bold text-gray-600 bg-white border border-gray-200 rounded-lg px-2 py-1"
+        >
+          <option value="default">기본 (검색 시 관련도순)</option>
+          <option value="severity">심각도 높은 순</option>
+        </select>
+      </div>
+    </div>
+  );
+}
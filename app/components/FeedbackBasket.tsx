@@ -0,0 +1,207 @@
+"use client";
+
+import { useState } from "react";
+import {
+  BASKET_EXPORT_LABELS,
+  formatBasket,
+  GREETING_TEMPLATES,
+  SIGN_OFF_TEMPLATES,
+  type BasketExportFormat,
+} from "@/lib/basket";
+import type { Creators } from "../hooks/useCreators";
+import type { FeedbackBasket as FeedbackBasketState } from "../hooks/useFeedbackBasket";
+
+type FeedbackBasketProps = {
+  basket: FeedbackBasketState;
+  creators: Creators;
+};
+
+const EXPORT_FORMATS = Object.keys(BASKET_EXPORT_LABELS) as BasketExportFormat[];
+
+function TemplateField({ label, value, templates, onChange }: {
+  label: string;
+  value: string;
+  templates: string[];
+  onChange: (value: string) => void;
+}) {
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1.5">
+        <span className="text-xs font-bold text-gray-500">{label}</span>
+        <select
+          value=""
+          onChange={(e) => e.target.value && onChange(e.target.value)}
+          className="text-xs text-gray-500 bg-gray-50 border border-gray-200 rounded-md px-1.5 py-0.5"
+        >
+          <option value="">템플릿 선택</option>
+          {templates.map((template) => (
+            <option key={template} value={template}>{template}</option>
+          ))}
+        </select>
+      </div>
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        rows={2}
+        className="w-full text-sm border border-gray-200 rounded-lg p-2.5 focus:outline-none focus:border-blue-500"
+      />
+    </div>
+  );
+}
+
+// Floating "feedback basket": collects solutions from several cards into one message.
+export default function FeedbackBasket({ basket: store, creators }: FeedbackBasketProps) {
+  const { basket } = store;
+  const [isOpen, setIsOpen] = useState(false);
+  const [format, setFormat] = useState<BasketExportFormat>("chat");
+  const [isCopied, setIsCopied] = useState(false);
+  const [isRecorded, setIsRecorded] = useState(false);
+
+  const message = formatBasket(basket, format);
+
+  const copyMessage = () => {
+    navigator.clipboard.writeText(message);
+    setIsCopied(true);
+    setTimeout(() => setIsCopied(false), 2000);
+  };
+
+  const recordForCreator = async () => {
+    try {
+      await creators.recordSent(basket.items.map((item) => ({ entryId: item.entryId, version: item.version, text: item.text })));
+      setIsRecorded(true);
+      setTimeout(() => setIsRecorded(false), 2000);
+    } catch (error) {
+      console.error("Failed to record sent feedback", error);
+      alert("기록하지 못했습니다.");
+    }
+  };
+
+  const downloadMessage = () => {
+    const extension = format === "markdown" ? "md" : "txt";
+    const url = URL.createObjectURL(new Blob([message], { type: "text/plain;charset=utf-8" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `feedback.${extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        className="fixed bottom-6 right-6 z-20 flex items-center gap-2 px-5 py-3 rounded-full bg-gray-900 text-white font-bold shadow-lg hover:bg-gray-800 active:scale-95 transition-all"
+      >
+        🧺 피드백 바구니
+        <span className="min-w-6 h-6 px-1.5 rounded-full bg-white text-gray-900 text-xs flex items-center justify-center">
+          {basket.items.length}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="fixed inset-0 z-30 flex justify-end bg-black/20" onClick={() => setIsOpen(false)}>
+          <aside
+            className="w-full max-w-lg h-full bg-white shadow-2xl flex flex-col"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-lg font-extrabold">🧺 피드백 바구니</h2>
+              <div className="flex items-center gap-2">
+                {basket.items.length > 0 && (
+                  <button onClick={store.clear} className="text-xs font-bold text-gray-400 hover:text-red-600">
+                    비우기
+                  </button>
+                )}
+                <button onClick={() => setIsOpen(false)} className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg">
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
+                </button>
+              </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto px-6 py-5 space-y-5">
+              <TemplateField label="인사말" value={basket.greeting} templates={GREETING_TEMPLATES} onChange={store.setGreeting} />
+
+              {basket.items.length === 0 ? (
+                <p className="text-center py-10 text-sm text-gray-400 border border-dashed border-gray-200 rounded-xl">
+                  카드의 &lsquo;담기&rsquo; 버튼으로 솔루션을 모아보세요.
+                </p>
+              ) : (
+                <ol className="space-y-3">
+                  {basket.items.map((item, index) => (
+                    <li key={item.key} className="border border-gray-200 rounded-xl p-3">
+                      <div className="flex items-start gap-2 mb-2">
+                        <span className="text-xs font-bold text-blue-600 mt-0.5">{index + 1}.</span>
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-bold text-gray-800 leading-snug">{item.problem}</p>
+                          <p className="text-[11px] text-gray-400">{item.category} · {item.version}</p>
+                        </div>
+                        <div className="flex items-center gap-0.5 text-gray-400">
+                          <button onClick={() => store.moveItem(index, index - 1)} disabled={index === 0} className="px-1.5 hover:text-gray-700 disabled:opacity-30" title="위로">▲</button>
+                          <button onClick={() => store.moveItem(index, index + 1)} disabled={index === basket.items.length - 1} className="px-1.5 hover:text-gray-700 disabled:opacity-30" title="아래로">▼</button>
+                          <button onClick={() => store.removeItem(item.key)} className="px-1.5 hover:text-red-600" title="빼기">✕</button>
+                        </div>
+                      </div>
+                      <textarea
+                        value={item.text}
+                        onChange={(e) => store.updateItemText(item.key, e.target.value)}
+                        rows={4}
+                        className="w-full text-sm border border-gray-100 bg-gray-50 rounded-lg p-2.5 focus:outline-none focus:border-blue-500 focus:bg-white"
+                      />
+                    </li>
+                  ))}
+                </ol>
+              )}
+
+              <TemplateField label="맺음말" value={basket.signOff} templates={SIGN_OFF_TEMPLATES} onChange={store.setSignOff} />
+
+              <div>
+                <div className="flex gap-2 mb-2">
+                  {EXPORT_FORMATS.map((option) => (
+                    <button
+                      key={option}
+                      onClick={() => setFormat(option)}
+                      className={`px-3 py-1.5 rounded-md text-xs font-bold transition-colors ${format === option ? "bg-blue-600 text-white shadow-sm" : "bg-blue-100 text-blue-600 hover:bg-blue-200"}`}
+                    >
+                      {BASKET_EXPORT_LABELS[option]}
+                    </button>
+                  ))}
+                </div>
+                <pre className="text-xs leading-relaxed whitespace-pre-wrap bg-gray-50 border border-gray-200 rounded-lg p-3 max-h-64 overflow-y-auto font-sans">
+                  {message || "내보낼 내용이 없습니다."}
+                </pre>
+              </div>
+            </div>
+
+            {creators.selected && basket.items.length > 0 && (
+              <div className="px-6 py-3 border-t border-gray-200">
+                <button
+                  onClick={recordForCreator}
+                  className={`w-full py-2.5 rounded-lg font-bold text-sm transition-all ${isRecorded ? "bg-green-100 text-green-700" : "bg-green-50 text-green-700 hover:bg-green-100"}`}
+                >
+                  {isRecorded ? "기록됨" : `👤 ${creators.selected.name}님께 보낸 것으로 기록`}
+                </button>
+              </div>
+            )}
+
+            <div className="px-6 py-4 border-t border-gray-200 flex gap-2">
+              <button
+                onClick={copyMessage}
+                disabled={!message}
+                className={`flex-1 py-3 rounded-lg font-bold text-sm transition-all disabled:bg-gray-100 disabled:text-gray-400 ${isCopied ? "bg-green-100 text-green-700" : "bg-blue-600 text-white hover:bg-blue-700"}`}
+              >
+                {isCopied ? "복사됨" : "메시지 복사"}
+              </button>
+              <button
+                onClick={downloadMessage}
+                disabled={!message}
+                className="px-4 py-3 rounded-lg font-bold text-sm bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:text-gray-400"
+              >
+                다운로드
+              </button>
+            </div>
+          </aside>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,23 @@
+import { highlightSegments } from "@/lib/search/highlight";
+
+type HighlightProps = {
+  text: string;
+  terms: string[];
+};
+
+// Renders text with the matched search terms marked.
+export default function Highlight({ text, terms }: HighlightProps) {
+  return (
+    <>
+      {highlightSegments(text, terms).map((segment, i) =>
+        segment.match ? (
+          <mark key={i} className="bg-yellow-100 text-inherit rounded px-0.5">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={i}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+export type PersonalizationState = {
+  text?: string;
+  loading?: boolean;
+  error?: string;
+};
+
+type PersonalizedSolutionProps = {
+  draft: string;
+  onDraftChange: (draft: string) => void;
+  state: PersonalizationState | undefined;
+  onGenerate: () => void;
+  onShowOriginal: () => void;
+  originalLabel: string;
+};
+
+// Body of the "내 영상 맞춤" tab: asks for the creator's draft, then shows the rewritten solution.
+export default function PersonalizedSolution({ draft, onDraftChange, state, onGenerate, onShowOriginal, originalLabel }: PersonalizedSolutionProps) {
+  const stop = (e: React.MouseEvent) => e.stopPropagation();
+
+  if (state?.text) {
+    return (
+      <div onClick={stop}>
+        <div className="text-base leading-relaxed text-gray-800 whitespace-pre-wrap font-medium">{state.text}</div>
+        <div className="mt-4 flex items-center gap-3 text-xs font-bold">
+          <button onClick={onShowOriginal} className="text-blue-600 hover:underline">
+            ← 원문 보기 ({originalLabel})
+          </button>
+          <button onClick={onGenerate} disabled={state.loading} className="text-gray-400 hover:text-gray-600 disabled:opacity-50">
+            {state.loading ? "다시 만드는 중..." : "다시 만들기"}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div onClick={stop} className="space-y-3">
+      <p className="text-sm text-gray-600">
+        크리에이터의 대본이나 영상 설명을 넣으면, {originalLabel} 솔루션의 핵심은 그대로 두고 예시를 크리에이터의 주제로 바꿔드립니다.
+      </p>
+      <textarea
+        value={draft}
+        onChange={(e) => onDraftChange(e.target.value)}
+        rows={4}
+        placeholder="예: 자취방 원룸 인테리어 꿀팁 영상입니다. 첫 장면은 이사 전 빈 방..."
+        className="w-full text-sm border border-blue-100 bg-white rounded-lg p-3 focus:outline-none focus:border-blue-500"
+      />
+      {state?.error && <p className="text-xs font-bold text-red-600">{state.error}</p>}
+      <div className="flex items-center gap-3">
+        <button
+          onClick={onGenerate}
+          disabled={state?.loading || !draft.trim()}
+          className="px-4 py-2 rounded-lg text-sm font-bold bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-100 disabled:text-gray-400"
+        >
+          {state?.loading ? "변환 중..." : "✨ 맞춤 변환"}
+        </button>
+        <button onClick={onShowOriginal} className="text-xs font-bold text-blue-600 hover:underline">
+          원문 보기 ({originalLabel})
+        </button>
+      </div>
+    </div>
+  );
+}
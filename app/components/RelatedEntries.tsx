@@ -0,0 +1,56 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { FeedbackItem } from "@/lib/feedback/types";
+import type { RelatedReason } from "@/lib/related/graph";
+
+type RelatedResult = FeedbackItem & {
+  score: number;
+  reasons: RelatedReason[];
+};
+
+type RelatedEntriesProps = {
+  id: string;
+  onSelect: (id: string) => void;
+};
+
+// "함께 보면 좋은 피드백" under an expanded card. Loads /api/related/:id when the card opens.
+export default function RelatedEntries({ id, onSelect }: RelatedEntriesProps) {
+  const [loaded, setLoaded] = useState<{ id: string; related: RelatedResult[] } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/related/${encodeURIComponent(id)}`)
+      .then((res) => (res.ok ? res.json() : { related: [] }))
+      .then((body) => !cancelled && setLoaded({ id, related: body.related ?? [] }))
+      .catch((error) => console.error("Failed to load related entries", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  const related = loaded?.id === id ? loaded.related : [];
+  if (related.length === 0) return null;
+
+  return (
+    <div className="mt-4" onClick={(e) => e.stopPropagation()}>
+      <h4 className="text-xs font-bold text-gray-400 mb-2">함께 보면 좋은 피드백</h4>
+      <ul className="space-y-1.5">
+        {related.map((entry) => (
+          <li key={entry.id}>
+            <button
+              onClick={() => onSelect(entry.id)}
+              className="w-full text-left flex items-start gap-2 px-3 py-2 rounded-lg bg-white border border-gray-100 hover:border-blue-200 hover:bg-blue-50/50 transition-colors"
+            >
+              <span className="flex-shrink-0 text-[11px] font-bold text-gray-500 bg-gray-100 px-1.5 py-0.5 rounded">{entry.category}</span>
+              <span className="flex-1 text-sm font-medium text-gray-700 leading-snug">{entry.problem}</span>
+              {entry.reasons.includes("curated") && (
+                <span className="flex-shrink-0 text-[11px] font-bold text-blue-600">추천</span>
+              )}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
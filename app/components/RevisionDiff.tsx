@@ -0,0 +1,45 @@
+"use client";
+
+import type { EntryDiff } from "@/lib/editor/diff";
+
+const STATUS_LABELS: Record<EntryDiff["status"], string> = {
+  added: "추가",
+  removed: "삭제",
+  changed: "수정",
+};
+
+// Word-level diff of one revision: removed text struck through in red, added text in green.
+export default function RevisionDiff({ diffs }: { diffs: EntryDiff[] }) {
+  if (diffs.length === 0) {
+    return <p className="text-xs text-gray-400">변경된 내용이 없습니다.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {diffs.map((diff) => (
+        <div key={diff.id} className="text-sm">
+          <p className="text-xs font-bold text-gray-500 mb-1">
+            [{STATUS_LABELS[diff.status]}] {diff.problem}
+            {diff.moved && <span className="ml-1 font-normal">· 순서 {diff.moved[0] + 1} → {diff.moved[1] + 1}</span>}
+          </p>
+          {diff.fields.map(({ field, parts }) => (
+            <div key={field} className="mb-1.5">
+              <span className="text-[11px] font-bold text-gray-400">{field}</span>
+              <p className="leading-relaxed whitespace-pre-wrap bg-gray-50 rounded-md px-2 py-1">
+                {parts.map((part, i) =>
+                  part.type === "equal" ? (
+                    <span key={i}>{part.text}</span>
+                  ) : part.type === "added" ? (
+                    <ins key={i} className="bg-green-100 text-green-800 no-underline">{part.text}</ins>
+                  ) : (
+                    <del key={i} className="bg-red-100 text-red-700">{part.text}</del>
+                  )
+                )}
+              </p>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
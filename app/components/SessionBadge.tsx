@@ -0,0 +1,32 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+// Header badge with the signed-in user and a logout button. Renders nothing when login is off.
+export default function SessionBadge() {
+  const [user, setUser] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/auth/session")
+      .then((res) => (res.ok ? res.json() : { user: null }))
+      .then((body) => setUser(body.user))
+      .catch((e) => console.error("Failed to load session", e));
+  }, []);
+
+  const logout = async () => {
+    await fetch("/api/auth/logout", { method: "POST" });
+    window.location.href = "/login";
+  };
+
+  if (!user) return null;
+
+  return (
+    <button
+      onClick={logout}
+      className="text-xs font-medium text-gray-500 hover:text-gray-700 bg-gray-100 hover:bg-gray-200 px-2.5 py-1 rounded-lg"
+      title="로그아웃"
+    >
+      {user === "team" ? "팀 계정" : user} · 로그아웃
+    </button>
+  );
+}
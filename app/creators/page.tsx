@@ -0,0 +1,128 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import type { Creator, SentFeedback } from "@/lib/creators/types";
+import { useCreators } from "../hooks/useCreators";
+
+const formatDay = (iso: string) =>
+  new Date(iso).toLocaleDateString("ko-KR", { year: "numeric", month: "long", day: "numeric", weekday: "short" });
+
+// Sends of the same day are grouped under one date heading
+function groupByDay(sent: SentFeedback[]): [string, SentFeedback[]][] {
+  const groups = new Map<string, SentFeedback[]>();
+  for (const record of sent) {
+    const day = formatDay(record.sentAt);
+    groups.set(day, [...(groups.get(day) ?? []), record]);
+  }
+  return [...groups.entries()];
+}
+
+function ProfileForm({ creator, onSave, onDelete }: {
+  creator: Creator;
+  onSave: (name: string, channel: string) => Promise<void>;
+  onDelete: () => Promise<void>;
+}) {
+  const [name, setName] = useState(creator.name);
+  const [channel, setChannel] = useState(creator.channel);
+  const isDirty = name !== creator.name || channel !== creator.channel;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <input value={name} onChange={(e) => setName(e.target.value)} className="w-32 text-sm font-bold border border-gray-200 rounded-lg px-2.5 py-1.5 focus:outline-none focus:border-blue-500" />
+      <input value={channel} onChange={(e) => setChannel(e.target.value)} placeholder="채널" className="flex-1 min-w-40 text-sm border border-gray-200 rounded-lg px-2.5 py-1.5 focus:outline-none focus:border-blue-500" />
+      <button onClick={() => onSave(name, channel)} disabled={!isDirty || !name.trim()} className="px-3 py-1.5 rounded-lg text-xs font-bold bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-100 disabled:text-gray-400">
+        저장
+      </button>
+      <button
+        onClick={() => confirm(`${creator.name}님과 피드백 기록을 모두 삭제할까요?`) && onDelete()}
+        className="px-3 py-1.5 rounded-lg text-xs font-bold text-gray-400 hover:text-red-600"
+      >
+        삭제
+      </button>
+    </div>
+  );
+}
+
+// Creator profiles and the timeline of feedback each one has received.
+export default function CreatorsPage() {
+  const creators = useCreators();
+  const { selected } = creators;
+
+  return (
+    <div className="min-h-screen bg-gray-50 text-gray-900 font-sans pb-20">
+      <header className="bg-white border-b border-gray-200 sticky top-0 z-10 shadow-sm">
+        <div className="max-w-5xl mx-auto px-6 py-4 flex items-center justify-between">
+          <h1 className="text-xl font-extrabold tracking-tight text-gray-900">👤 크리에이터별 피드백 기록</h1>
+          <Link href="/" className="text-xs font-bold text-gray-500 hover:text-gray-900 bg-gray-100 px-2.5 py-1 rounded-lg">
+            ← 백과사전
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-6 mt-8 grid grid-cols-1 md:grid-cols-[220px_1fr] gap-8">
+        <nav className="space-y-1">
+          {creators.creators.length === 0 && (
+            <p className="text-sm text-gray-400">백과사전 화면에서 크리에이터를 추가하세요.</p>
+          )}
+          {creators.creators.map((creator) => (
+            <button
+              key={creator.id}
+              onClick={() => creators.select(creator.id)}
+              className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${creator.id === selected?.id ? "bg-blue-600 text-white font-bold" : "text-gray-700 hover:bg-gray-100"}`}
+            >
+              {creator.name}
+              {creator.channel && <span className={`block text-[11px] truncate ${creator.id === selected?.id ? "text-blue-100" : "text-gray-400"}`}>{creator.channel}</span>}
+            </button>
+          ))}
+        </nav>
+
+        <section className="space-y-6">
+          {!selected ? (
+            <p className="text-sm text-gray-400">왼쪽에서 크리에이터를 선택하세요.</p>
+          ) : (
+            <>
+              <ProfileForm
+                key={selected.id}
+                creator={selected}
+                onSave={(name, channel) => creators.updateCreator(selected.id, name, channel)}
+                onDelete={() => creators.deleteCreator(selected.id)}
+              />
+
+              {creators.sent.length === 0 && (
+                <div className="text-center py-16 text-sm text-gray-400 bg-white rounded-2xl border border-dashed border-gray-200">
+                  <p>아직 보낸 피드백이 없습니다.</p>
+                  <p className="mt-1">크리에이터를 선택한 채로 솔루션을 복사하면 여기에 기록됩니다.</p>
+                </div>
+              )}
+
+              {groupByDay(creators.sent).map(([day, records]) => (
+                <div key={day}>
+                  <h2 className="text-sm font-bold text-gray-400 mb-3">{day}</h2>
+                  <ol className="space-y-2 border-l-2 border-blue-100 pl-4">
+                    {records.map((record) => (
+                      <li key={record.id} className="bg-white rounded-xl border border-gray-200 p-4">
+                        <div className="flex items-start gap-3">
+                          <div className="flex-1 min-w-0">
+                            <span className="text-[11px] font-bold text-gray-400">{record.category} · {record.version}</span>
+                            <Link href={`/item/${encodeURIComponent(record.entryId)}`} className="block text-sm font-bold text-gray-800 hover:text-blue-600">
+                              {record.problem}
+                            </Link>
+                          </div>
+                          <button onClick={() => creators.deleteRecord(record.id)} className="text-xs text-gray-300 hover:text-red-600" title="기록 삭제">✕</button>
+                        </div>
+                        {record.text && (
+                          <p className="mt-2 text-sm text-gray-600 leading-relaxed whitespace-pre-wrap line-clamp-3">{record.text}</p>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              ))}
+            </>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
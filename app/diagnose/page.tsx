@@ -0,0 +1,183 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import type { DiagnosedSegment, DraftDiagnosis } from "@/lib/diagnosis/diagnose";
+import { primarySolution } from "@/lib/feedback/variants";
+
+export default function DiagnosePage() {
+  const [draft, setDraft] = useState("");
+  const [diagnosis, setDiagnosis] = useState<DraftDiagnosis | null>(null);
+  // The draft exactly as it was submitted; offsets in the diagnosis refer to this text
+  const [diagnosedDraft, setDiagnosedDraft] = useState("");
+  const [isDiagnosing, setIsDiagnosing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [openSolution, setOpenSolution] = useState<string | null>(null);
+
+  // Only segments with at least one match get a number in the annotated draft
+  const flagged = useMemo(() => {
+    const numbers = new Map<number, number>();
+    diagnosis?.segments.forEach((segment) => {
+      if (segment.matches.length > 0) numbers.set(segment.index, numbers.size + 1);
+    });
+    return numbers;
+  }, [diagnosis]);
+
+  const handleDiagnose = async () => {
+    if (!draft.trim()) return;
+
+    setIsDiagnosing(true);
+    setError(null);
+    setOpenSolution(null);
+
+    try {
+      const res = await fetch("/api/diagnose", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ draft }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Diagnosis Failed");
+
+      setDiagnosis(body);
+      setDiagnosedDraft(draft);
+    } catch (e) {
+      console.error("Diagnosis Error", e);
+      setError(e instanceof Error ? e.message : "진단 중 오류가 발생했습니다.");
+    } finally {
+      setIsDiagnosing(false);
+    }
+  };
+
+  // Renders the submitted draft with flagged segments marked inline, keeping the text between them.
+  const renderAnnotatedDraft = (segments: DiagnosedSegment[]) => {
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+
+    segments.forEach((segment) => {
+      if (segment.start > cursor) parts.push(diagnosedDraft.slice(cursor, segment.start));
+
+      const number = flagged.get(segment.index);
+      parts.push(
+        number ? (
+          <a
+            key={segment.index}
+            href={`#segment-${segment.index}`}
+            className="bg-amber-100 underline decoration-amber-400 decoration-2 underline-offset-4 rounded px-0.5 hover:bg-amber-200"
+          >
+            {segment.text}
+            <sup className="ml-0.5 text-[10px] font-bold text-amber-700">{number}</sup>
+          </a>
+        ) : (
+          <span key={segment.index}>{segment.text}</span>
+        )
+      );
+      cursor = segment.end;
+    });
+
+    if (cursor < diagnosedDraft.length) parts.push(diagnosedDraft.slice(cursor));
+    return parts;
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 text-gray-900 font-sans pb-20">
+      <header className="bg-white border-b border-gray-200 sticky top-0 z-10 shadow-sm">
+        <div className="max-w-4xl mx-auto px-6 py-4 flex items-center justify-between">
+          <h1 className="text-xl font-extrabold tracking-tight text-gray-900">
+            📝 초안 진단
+          </h1>
+          <Link href="/" className="text-xs font-bold text-gray-500 hover:text-gray-900 bg-gray-100 px-2.5 py-1 rounded-lg">
+            ← 백과사전
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-6 mt-8 space-y-8">
+        <div>
+          <h2 className="text-sm font-bold text-gray-400 mb-3 uppercase tracking-wider">
+            Step 1. 초안 붙여넣기
+          </h2>
+          <textarea
+            className="block w-full min-h-48 p-5 text-base border border-gray-200 rounded-xl bg-white focus:outline-none focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 placeholder:text-gray-400"
+            placeholder="숏폼 대본이나 캡션을 붙여넣으면 문장별로 관련 피드백을 찾아드립니다."
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+          />
+          <div className="mt-3 flex items-center justify-between gap-4">
+            <span className="text-xs text-gray-400">{draft.length}자</span>
+            <button
+              onClick={handleDiagnose}
+              disabled={isDiagnosing || !draft.trim()}
+              className={`px-5 py-2.5 rounded-lg font-bold text-sm transition-all ${isDiagnosing || !draft.trim()
+                ? "bg-gray-100 text-gray-400 cursor-not-allowed"
+                : "bg-blue-600 text-white hover:bg-blue-700 shadow-md active:scale-95"
+                }`}
+            >
+              {isDiagnosing ? "진단 중..." : "진단하기"}
+            </button>
+          </div>
+          {error && <p className="mt-2 text-sm font-bold text-red-600">{error}</p>}
+        </div>
+
+        {diagnosis && (
+          <>
+            <div>
+              <h2 className="text-sm font-bold text-gray-400 mb-3 uppercase tracking-wider flex items-center justify-between">
+                Step 2. 문장별 진단
+                <span className="text-xs font-normal text-gray-400">
+                  {diagnosis.mode === "ai" ? `AI 진단 (${diagnosis.provider})` : "로컬 검색 기반 진단"} · {flagged.size}/{diagnosis.segments.length}개 문장
+                </span>
+              </h2>
+              <div className="p-5 bg-white rounded-2xl border border-gray-100 text-base leading-loose whitespace-pre-wrap">
+                {renderAnnotatedDraft(diagnosis.segments)}
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              {flagged.size === 0 && (
+                <div className="text-center py-12 text-base text-gray-400 bg-white rounded-2xl border border-dashed border-gray-200">
+                  <p>백과사전의 문제점과 연결된 문장이 없습니다.</p>
+                </div>
+              )}
+              {diagnosis.segments
+                .filter((segment) => segment.matches.length > 0)
+                .map((segment) => (
+                  <div key={segment.index} id={`segment-${segment.index}`} className="bg-white rounded-2xl border border-gray-100 p-5 scroll-mt-24">
+                    <p className="text-sm text-gray-500 mb-3">
+                      <span className="font-bold text-amber-700 mr-2">{flagged.get(segment.index)}</span>
+                      &ldquo;{segment.text}&rdquo;
+                    </p>
+                    <ul className="space-y-3">
+                      {segment.matches.map((match) => {
+                        const key = `${segment.index}-${match.id}`;
+                        return (
+                          <li key={key} className="border-l-4 border-blue-200 pl-4">
+                            <div className="flex items-center gap-2 mb-1">
+                              <span className="text-xs font-bold text-gray-500 bg-gray-100 px-2 py-0.5 rounded">{match.category}</span>
+                              <span className="text-xs font-bold text-blue-600">관련도 {match.score}%</span>
+                            </div>
+                            <button
+                              onClick={() => setOpenSolution(openSolution === key ? null : key)}
+                              className="text-left font-bold text-gray-800 hover:text-blue-700"
+                            >
+                              {match.problem}
+                            </button>
+                            {match.reason && <p className="text-sm text-gray-500 mt-1">{match.reason}</p>}
+                            {openSolution === key && (
+                              <p className="mt-2 p-4 bg-blue-50 rounded-xl text-sm leading-relaxed text-gray-800 whitespace-pre-wrap">
+                                {primarySolution(match)}
+                              </p>
+                            )}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </div>
+                ))}
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
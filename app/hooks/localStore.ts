@@ -0,0 +1,52 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+
+export type LocalStore<T> = {
+  use(): T;
+  update(updater: (prev: T) => T): void;
+};
+
+// A small external store backed by localStorage. The server render and hydration use the
+// fallback value; the stored value is read on first client access and kept in sync across tabs.
+export function createLocalStore<T>(key: string, fallback: T, revive: (stored: unknown) => T | null): LocalStore<T> {
+  const listeners = new Set<() => void>();
+  let snapshot: T | null = null;
+
+  const read = (): T => {
+    try {
+      const stored = window.localStorage.getItem(key);
+      return (stored !== null && revive(JSON.parse(stored))) || fallback;
+    } catch (error) {
+      console.error(`Failed to read ${key} from localStorage`, error);
+      return fallback;
+    }
+  };
+
+  const getSnapshot = () => (snapshot ??= read());
+  const notify = () => listeners.forEach((listener) => listener());
+
+  const onStorage = (event: StorageEvent) => {
+    if (event.key !== key) return;
+    snapshot = read();
+    notify();
+  };
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    if (listeners.size === 1) window.addEventListener("storage", onStorage);
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) window.removeEventListener("storage", onStorage);
+    };
+  };
+
+  return {
+    use: () => useSyncExternalStore(subscribe, getSnapshot, () => fallback),
+    update(updater) {
+      snapshot = updater(getSnapshot());
+      window.localStorage.setItem(key, JSON.stringify(snapshot));
+      notify();
+    },
+  };
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import type { Creator, SendRecord, SentFeedback } from "@/lib/creators/types";
+import { createLocalStore } from "./localStore";
+
+const selectedStore = createLocalStore<string>("selected-creator:v1", "", (stored) => (typeof stored === "string" ? stored : null));
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(path, init);
+  if (res.status === 204) return undefined as T;
+  const body = await res.json();
+  if (!res.ok) throw new Error(body.error || "Request Failed");
+  return body;
+}
+
+const json = (method: string, body: unknown): RequestInit => ({
+  method,
+  headers: { "Content-Type": "application/json" },
+  body: JSON.stringify(body),
+});
+
+// Creator profiles and the selected creator's feedback history. The selection is remembered in localStorage.
+export function useCreators() {
+  const selectedId = selectedStore.use();
+  const [creators, setCreators] = useState<Creator[]>([]);
+  const [history, setHistory] = useState<{ creatorId: string; sent: SentFeedback[] } | null>(null);
+  // Bumped to fetch the list / history again after a change
+  const [listVersion, setListVersion] = useState(0);
+  const [historyVersion, setHistoryVersion] = useState(0);
+
+  useEffect(() => {
+    request<{ creators: Creator[] }>("/api/creators")
+      .then((body) => setCreators(body.creators))
+      .catch((e) => console.error("Failed to load creators", e));
+  }, [listVersion]);
+
+  useEffect(() => {
+    if (!selectedId) return;
+    request<{ sent: SentFeedback[] }>(`/api/creators/${selectedId}/history`)
+      .then((body) => setHistory({ creatorId: selectedId, sent: body.sent }))
+      .catch((e) => console.error("Failed to load creator history", e));
+  }, [selectedId, historyVersion]);
+
+  const selected = creators.find((creator) => creator.id === selectedId) ?? null;
+  const sent = useMemo(
+    () => (selected && history?.creatorId === selected.id ? history.sent : []),
+    [selected, history],
+  );
+
+  // Most recent send per entry, for the "already sent" badges
+  const sentByEntry = useMemo(() => {
+    const latest = new Map<string, SentFeedback>();
+    for (const record of sent) {
+      if (!latest.has(record.entryId)) latest.set(record.entryId, record);
+    }
+    return latest;
+  }, [sent]);
+
+  const select = (id: string) => selectedStore.update(() => id);
+
+  return {
+    creators,
+    selected,
+    sent,
+    sentByEntry,
+    select,
+    async addCreator(name: string, channel: string) {
+      const { creator } = await request<{ creator: Creator }>("/api/creators", json("POST", { name, channel }));
+      setListVersion((v) => v + 1);
+      select(creator.id);
+      return creator;
+    },
+    async updateCreator(id: string, name: string, channel: string) {
+      await request(`/api/creators/${id}`, json("PATCH", { name, channel }));
+      setListVersion((v) => v + 1);
+    },
+    async deleteCreator(id: string) {
+      await request(`/api/creators/${id}`, { method: "DELETE" });
+      if (id === selectedId) select("");
+      setListVersion((v) => v + 1);
+    },
+    async recordSent(records: SendRecord[]) {
+      if (!selected || records.length === 0) return;
+      await request(`/api/creators/${selected.id}/history`, json("POST", { items: records }));
+      setHistoryVersion((v) => v + 1);
+    },
+    async deleteRecord(recordId: string) {
+      if (!selected) return;
+      await request(`/api/creators/${selected.id}/history/${recordId}`, { method: "DELETE" });
+      setHistoryVersion((v) => v + 1);
+    },
+  };
+}
+
+export type Creators = ReturnType<typeof useCreators>;
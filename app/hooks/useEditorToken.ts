@@ -0,0 +1,12 @@
+"use client";
+
+import { createLocalStore } from "./localStore";
+
+const tokenStore = createLocalStore<string>("editor-token:v1", "", (stored) => (typeof stored === "string" ? stored : null));
+
+const setToken = (token: string) => tokenStore.update(() => token);
+
+// The admin editor's Bearer token, remembered in localStorage between visits.
+export function useEditorToken() {
+  return { token: tokenStore.use(), setToken };
+}
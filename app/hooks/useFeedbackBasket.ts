@@ -0,0 +1,44 @@
+"use client";
+
+import { EMPTY_BASKET, moveItem, type BasketItem, type BasketState } from "@/lib/basket";
+import { createLocalStore } from "./localStore";
+
+const basketStore = createLocalStore<BasketState>("feedback-basket:v1", EMPTY_BASKET, (stored) => {
+  const basket = stored as Partial<BasketState> | null;
+  if (!basket || !Array.isArray(basket.items)) return null;
+  // Items saved before entryId existed carry it as the key prefix
+  const items = basket.items.map((item) => ({ ...item, entryId: item.entryId ?? item.key.split("::")[0] }));
+  return { ...EMPTY_BASKET, ...basket, items };
+});
+
+const update = basketStore.update;
+
+const actions = {
+  addItem: (item: BasketItem) =>
+    update((prev) =>
+      prev.items.some((existing) => existing.key === item.key) ? prev : { ...prev, items: [...prev.items, item] }
+    ),
+  removeItem: (key: string) => update((prev) => ({ ...prev, items: prev.items.filter((item) => item.key !== key) })),
+  updateItemText: (key: string, text: string) =>
+    update((prev) => ({
+      ...prev,
+      items: prev.items.map((item) => (item.key === key ? { ...item, text } : item)),
+    })),
+  moveItem: (from: number, to: number) => update((prev) => ({ ...prev, items: moveItem(prev.items, from, to) })),
+  setGreeting: (greeting: string) => update((prev) => ({ ...prev, greeting })),
+  setSignOff: (signOff: string) => update((prev) => ({ ...prev, signOff })),
+  clear: () => update((prev) => ({ ...prev, items: [] })),
+};
+
+// Basket state persisted to localStorage so it survives reloads.
+export function useFeedbackBasket() {
+  const basket = basketStore.use();
+
+  return {
+    basket,
+    ...actions,
+    has: (key: string) => basket.items.some((item) => item.key === key),
+  };
+}
+
+export type FeedbackBasket = ReturnType<typeof useFeedbackBasket>;
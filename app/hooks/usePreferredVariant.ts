@@ -0,0 +1,15 @@
+"use client";
+
+import { createLocalStore } from "./localStore";
+
+// "" means no preference: every card opens on its first variant.
+const preferredStore = createLocalStore<string>("preferred-variant:v1", "", (stored) =>
+  typeof stored === "string" ? stored : null
+);
+
+const setPreferred = (label: string) => preferredStore.update(() => label);
+
+// The solution variant label cards open on by default, e.g. "직설". Saved per browser.
+export function usePreferredVariant(): [string, (label: string) => void] {
+  return [preferredStore.use(), setPreferred];
+}
@@ -0,0 +1,126 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { safeDecode } from "@/lib/decode";
+import { getFeedback } from "@/lib/feedback/cache";
+import { SEVERITY_LABELS } from "@/lib/feedback/taxonomy";
+import { pickVariant, primarySolution } from "@/lib/feedback/variants";
+import { getRelated, type RelatedEntry } from "@/lib/related/server";
+import CopyButton from "../../components/CopyButton";
+
+type ItemPageProps = {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ v?: string }>;
+};
+
+// Page params arrive still percent-encoded (e.g. "50%2525-off" for the ID "50%25-off"), unlike route
+// handler params, so the ID is decoded exactly once here. A malformed escape matches no entry.
+async function findItem(id: string) {
+  const decoded = safeDecode(id);
+  if (decoded === null) return undefined;
+  const { items } = await getFeedback();
+  return items.find((item) => item.id === decoded);
+}
+
+export async function generateMetadata({ params }: ItemPageProps): Promise<Metadata> {
+  const item = await findItem((await params).id);
+  if (!item) return { title: "피드백을 찾을 수 없습니다" };
+
+  return {
+    title: item.problem,
+    description: primarySolution(item),
+  };
+}
+
+// Standalone page for a single entry, so a coach can link a creator straight to it.
+export default async function ItemPage({ params, searchParams }: ItemPageProps) {
+  const item = await findItem((await params).id);
+  if (!item) notFound();
+
+  const { v } = await searchParams;
+  // ?v= takes a variant label; a number picks by position, as older links did
+  const highlighted = pickVariant(item, v)?.label;
+  const { solutions } = item;
+
+  // The page still renders when the related entries can't be computed
+  const related: RelatedEntry[] = await getRelated(item.id)
+    .then((result) => result?.related ?? [])
+    .catch((error) => {
+      console.error("[RELATED] Error:", error);
+      return [];
+    });
+
+  return (
+    <div className="min-h-screen bg-gray-50 text-gray-900 font-sans pb-20">
+      <header className="bg-white border-b border-gray-200 sticky top-0 z-10 shadow-sm">
+        <div className="max-w-4xl mx-auto px-6 py-4 flex items-center justify-between">
+          <h1 className="text-xl font-extrabold tracking-tight text-gray-900">
+            크리투스 피드백 백과사전
+          </h1>
+          <Link
+            href={`/?item=${encodeURIComponent(item.id)}${v && highlighted ? `&v=${encodeURIComponent(highlighted)}` : ""}`}
+            className="text-xs font-bold text-gray-500 hover:text-gray-900 bg-gray-100 px-2.5 py-1 rounded-lg"
+          >
+            ← 백과사전에서 보기
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-6 mt-8">
+        <div className="bg-white rounded-2xl border border-gray-200 shadow-sm p-6 space-y-5">
+          <div>
+            <div className="flex flex-wrap items-center gap-2 mb-2">
+              <span className="inline-flex items-center px-2 py-0.5 rounded text-[11px] font-bold bg-gray-100 text-gray-600">
+                {item.category}{item.subcategory && ` › ${item.subcategory}`}
+              </span>
+              {item.severity && (
+                <span className="text-[11px] font-bold text-gray-500">심각도 {SEVERITY_LABELS[item.severity]}</span>
+              )}
+              {item.tags?.map((tag) => (
+                <span key={tag} className="text-[11px] text-gray-400">#{tag}</span>
+              ))}
+            </div>
+            <h2 className="text-lg font-bold text-gray-900 leading-snug">{item.problem}</h2>
+          </div>
+
+          {solutions.map((solution) => (
+            <div
+              key={solution.label}
+              className={`p-5 rounded-xl border ${solution.label === highlighted ? "bg-blue-50 border-blue-200" : "bg-white border-gray-200"}`}
+            >
+              <div className="flex items-center justify-between mb-2">
+                <span className="font-bold text-blue-600 text-xs uppercase tracking-wide">
+                  크리투스 솔루션 {solutions.length > 1 ? `(${solution.label})` : ""}
+                  {[solution.tone, solution.length].filter(Boolean).map((hint) => (
+                    <span key={hint} className="ml-1.5 px-1.5 py-0.5 rounded bg-gray-100 text-gray-500 normal-case">{hint}</span>
+                  ))}
+                </span>
+                <CopyButton text={solution.text} label="복사" />
+              </div>
+              <p className="text-base leading-relaxed text-gray-800 whitespace-pre-wrap">{solution.text}</p>
+            </div>
+          ))}
+        </div>
+
+        {related.length > 0 && (
+          <section className="mt-6">
+            <h3 className="text-sm font-bold text-gray-400 mb-3">함께 보면 좋은 피드백</h3>
+            <ul className="space-y-2">
+              {related.map(({ item: entry }) => (
+                <li key={entry.id}>
+                  <Link
+                    href={`/item/${encodeURIComponent(entry.id)}`}
+                    className="flex items-start gap-2 bg-white rounded-xl border border-gray-200 px-4 py-3 hover:border-blue-300 transition-colors"
+                  >
+                    <span className="flex-shrink-0 text-[11px] font-bold text-gray-500 bg-gray-100 px-1.5 py-0.5 rounded">{entry.category}</span>
+                    <span className="text-sm font-medium text-gray-800 leading-snug">{entry.problem}</span>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import { Suspense, useEffect, useState } from "react";
+import { useSearchParams } from "next/navigation";
+
+type SessionInfo = { enabled: boolean; emailRequired: boolean; user: string | null };
+
+// Only same-site paths, so the login page can't be used to bounce people elsewhere
+const safeNext = (next: string | null) => (next && next.startsWith("/") && !next.startsWith("//") ? next : "/");
+
+// useSearchParams needs a Suspense boundary so the page can still be prerendered
+export default function LoginPage() {
+  return (
+    <Suspense>
+      <LoginForm />
+    </Suspense>
+  );
+}
+
+function LoginForm() {
+  const next = safeNext(useSearchParams().get("next"));
+  const [session, setSession] = useState<SessionInfo | null>(null);
+  const [email, setEmail] = useState("");
+  const [passcode, setPasscode] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/auth/session")
+      .then((res) => res.json())
+      .then((body: SessionInfo) => {
+        // Nothing to do here when login is off or the cookie is still valid
+        if (!body.enabled || body.user) window.location.replace(next);
+        else setSession(body);
+      })
+      .catch((e) => setError(e instanceof Error ? e.message : String(e)));
+  }, [next]);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, passcode }),
+      });
+      const body = await res.json();
+      if (res.status === 401) throw new Error(session?.emailRequired ? "이메일 또는 팀 코드가 올바르지 않습니다." : "팀 코드가 올바르지 않습니다.");
+      if (res.status === 429) throw new Error(`시도 횟수가 너무 많습니다. ${Math.ceil((body.retryAfter ?? 60) / 60)}분 후 다시 시도해주세요.`);
+      if (!res.ok) throw new Error(body.error || "Login Failed");
+      // A full navigation, so the proxy sees the new cookie
+      window.location.replace(next);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 text-gray-900 font-sans px-6">
+      <form onSubmit={submit} className="w-full max-w-sm bg-white border border-gray-200 rounded-2xl shadow-sm p-6 space-y-4">
+        <div>
+          <h1 className="text-xl font-extrabold tracking-tight">📚 크리투스 피드백 백과사전</h1>
+          <p className="text-sm text-gray-500 mt-1">팀원만 사용할 수 있습니다. 팀 코드를 입력해주세요.</p>
+        </div>
+        {session?.emailRequired && (
+          <input
+            type="email"
+            autoComplete="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="이메일"
+            required
+            className="w-full text-sm border border-gray-200 rounded-lg px-3 py-2.5 focus:outline-none focus:border-blue-500"
+          />
+        )}
+        <input
+          type="password"
+          autoComplete="current-password"
+          autoFocus
+          value={passcode}
+          onChange={(e) => setPasscode(e.target.value)}
+          placeholder="팀 코드"
+          required
+          className="w-full text-sm border border-gray-200 rounded-lg px-3 py-2.5 focus:outline-none focus:border-blue-500"
+        />
+        {error && <p className="text-xs font-bold text-red-600">{error}</p>}
+        <button
+          type="submit"
+          disabled={!session || submitting}
+          className="w-full py-2.5 rounded-lg font-bold text-sm bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-100 disabled:text-gray-400"
+        >
+          {submitting ? "확인 중..." : "로그인"}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -1,27 +1,130 @@
 "use client";
 
 
-import { useState, useEffect, useMemo } from "react";
+import { useState, useEffect, useMemo, useRef, Suspense } from "react";
+import Link from "next/link";
+import { usePathname, useSearchParams } from "next/navigation";
+import { track } from "@/lib/analytics/track";
+import type { FeedbackItem } from "@/lib/feedback/types";
+import { SEVERITY_LABELS, type Severity } from "@/lib/feedback/taxonomy";
+import { pickVariant, variantColumns } from "@/lib/feedback/variants";
+import { buildSearchIndex, search } from "@/lib/search/engine";
+import { EMPTY_FACETS, FACET_PARAMS, facetCounts, FACETS, isFacetSelectionEmpty, matchesFacets, sortBySeverity, type FacetName, type FacetSelection } from "@/lib/search/facets";
+import { highlightTerms } from "@/lib/search/highlight";
+import CreatorPicker from "./components/CreatorPicker";
+import FacetFilters, { type SortOrder } from "./components/FacetFilters";
+import FeedbackBasket from "./components/FeedbackBasket";
+import Highlight from "./components/Highlight";
+import PersonalizedSolution, { type PersonalizationState } from "./components/PersonalizedSolution";
+import RelatedEntries from "./components/RelatedEntries";
+import SessionBadge from "./components/SessionBadge";
+import { useCreators } from "./hooks/useCreators";
+import { useFeedbackBasket } from "./hooks/useFeedbackBasket";
+import { usePreferredVariant } from "./hooks/usePreferredVariant";
+
+// AI search results carry an explanation of why each entry matched
+type AiResult = FeedbackItem & {
+  score?: number;
+  quote?: string;
+  reason?: string;
+};
+
+const AI_RESULT_LIMIT = 5;
+
+// A solution variant label from the sheet ("버전1", "직설", ...), or the AI rewrite for the creator's own video
+type SolutionVersion = string;
+
+const CUSTOM = "__custom__";
 
-type FeedbackItem = {
-  category: string;
-  problem: string;
-  solution1: string;
-  solution2: string;
+const versionLabel = (version: SolutionVersion) => (version === CUSTOM ? "AI 맞춤" : version);
+
+const basketKey = (item: FeedbackItem, version: SolutionVersion) => `${item.id}::v${version}`;
+
+const SEVERITY_STYLES: Record<Severity, string> = {
+  high: "text-red-700 bg-red-50",
+  medium: "text-amber-700 bg-amber-50",
+  low: "text-gray-500 bg-gray-100",
 };
 
+// What to show when an AI endpoint turns the request down (login, query length, rate limits)
+const describeAiError = (status: number, body: { error?: string; maxLength?: number; scope?: string; retryAfter?: number }, fallback: string) => {
+  switch (status) {
+    case 401:
+      return "로그인이 필요합니다.";
+    case 413:
+      return body.maxLength ? `검색어가 너무 깁니다. ${body.maxLength}자 이내로 줄여주세요.` : "입력이 너무 깁니다.";
+    case 429:
+      if (body.scope === "daily") return "오늘의 AI 사용 한도를 모두 썼습니다. 내일 다시 시도해주세요.";
+      return `AI 요청이 너무 많습니다. ${body.retryAfter ?? 60}초 후 다시 시도해주세요.`;
+    case 503:
+      return "AI 키가 설정되지 않아 맞춤 변환을 사용할 수 없습니다.";
+    default:
+      return body.error || fallback;
+  }
+};
+
+const formatSentDate = (iso: string) => new Date(iso).toLocaleDateString("ko-KR", { month: "numeric", day: "numeric" });
+
+// Shareable link to a single entry, in the given version (left out for the entry's first variant)
+const permalink = (item: FeedbackItem, version: SolutionVersion) => {
+  const showVariant = version !== CUSTOM && version !== item.solutions[0]?.label;
+  return `${window.location.origin}/item/${encodeURIComponent(item.id)}${showVariant ? `?v=${encodeURIComponent(version)}` : ""}`;
+};
+
+function LoadingSpinner() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50">
+      <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-gray-900"></div>
+    </div>
+  );
+}
+
+// useSearchParams needs a Suspense boundary so the page can still be prerendered
 export default function Home() {
+  return (
+    <Suspense fallback={<LoadingSpinner />}>
+      <HomeContent />
+    </Suspense>
+  );
+}
+
+function HomeContent() {
+  // Filters, sort, query, expanded item and its version live in the URL (?category=&sub=&tag=&severity=&sort=&q=&item=&v=)
+  const searchParams = useSearchParams();
+  const pathname = usePathname();
+
   const [data, setData] = useState<FeedbackItem[]>([]);
   const [loading, setLoading] = useState(true);
-  const [searchQuery, setSearchQuery] = useState("");
-  const [selectedCategory, setSelectedCategory] = useState<string>("All");
-  const [expandedIndex, setExpandedIndex] = useState<number | null>(null);
-  const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
-  const [selectedVersions, setSelectedVersions] = useState<Record<number, 1 | 2>>({});
+  const [searchQuery, setSearchQuery] = useState(() => searchParams.get("q") ?? "");
+  const [facets, setFacets] = useState<FacetSelection>(() =>
+    Object.fromEntries(FACETS.map((facet) => [facet, searchParams.getAll(FACET_PARAMS[facet])])) as FacetSelection
+  );
+  const [sortOrder, setSortOrder] = useState<SortOrder>(() => (searchParams.get("sort") === "severity" ? "severity" : "default"));
+  const [expandedId, setExpandedId] = useState<string | null>(() => searchParams.get("item"));
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [linkCopiedId, setLinkCopiedId] = useState<string | null>(null);
+  const [selectedVersions, setSelectedVersions] = useState<Record<string, SolutionVersion>>(() => {
+    const item = searchParams.get("item");
+    const version = searchParams.get("v");
+    return item && version ? { [item]: version } : {};
+  });
+
+  // Personalization States (keyed by entry id)
+  const [creatorDraft, setCreatorDraft] = useState("");
+  const [personalized, setPersonalized] = useState<Record<string, PersonalizationState>>({});
+  const [personalizeFrom, setPersonalizeFrom] = useState<Record<string, SolutionVersion>>({});
 
   // AI Search States
-  const [aiAnalysisResults, setAiAnalysisResults] = useState<FeedbackItem[] | null>(null);
+  const [aiAnalysisResults, setAiAnalysisResults] = useState<AiResult[] | null>(null);
   const [isAiSearching, setIsAiSearching] = useState(false);
+  // Shown under the search bar; status 401 adds a login link
+  const [aiError, setAiError] = useState<{ status: number; message: string } | null>(null);
+  // True when AI search was unavailable and the results came from /api/search instead
+  const [isLocalFallback, setIsLocalFallback] = useState(false);
+
+  const basket = useFeedbackBasket();
+  const creators = useCreators();
+  const [preferredVariant, setPreferredVariant] = usePreferredVariant();
 
   useEffect(() => {
     async function fetchData() {
@@ -39,95 +142,239 @@ export default function Home() {
     fetchData();
   }, []);
 
+  // Keep the URL in sync so the current view can be shared as a link
+  useEffect(() => {
+    const params = new URLSearchParams();
+    for (const facet of FACETS) facets[facet].forEach((value) => params.append(FACET_PARAMS[facet], value));
+    if (sortOrder !== "default") params.set("sort", sortOrder);
+    if (searchQuery) params.set("q", searchQuery);
+    if (expandedId) {
+      params.set("item", expandedId);
+      // The variant is only part of the link when it isn't the one the card would open on anyway
+      const selected = selectedVersions[expandedId];
+      const item = data.find((entry) => entry.id === expandedId);
+      if (selected && selected !== CUSTOM && (!item || selected !== pickVariant(item, preferredVariant)?.label)) {
+        params.set("v", selected);
+      }
+    }
+
+    const query = params.toString();
+    if (query !== window.location.search.replace(/^\?/, "")) {
+      window.history.replaceState(null, "", query ? `${pathname}?${query}` : pathname);
+    }
+  }, [pathname, facets, sortOrder, searchQuery, expandedId, selectedVersions, data, preferredVariant]);
+
+  // Bring the linked entry into view once the data is there. Only on first load; later expansions
+  // are triggered by the user on screen.
+  const scrolledToLinked = useRef(false);
+  useEffect(() => {
+    if (loading || scrolledToLinked.current) return;
+    scrolledToLinked.current = true;
+    if (expandedId) {
+      document.getElementById(`item-${expandedId}`)?.scrollIntoView({ block: "center" });
+    }
+  }, [loading, expandedId]);
+
   // Extract unique categories
   const categories = useMemo(() => {
     const cats = Array.from(new Set(data.map((item) => item.category)));
     return ["All", ...cats];
   }, [data]);
 
+  const variants = useMemo(() => variantColumns(data), [data]);
+
+  const searchIndex = useMemo(() => buildSearchIndex(data), [data]);
+  const matchTerms = useMemo(() => highlightTerms(searchQuery), [searchQuery]);
+
+  // Entries matching the text query (all of them when there is none), before any facet is applied
+  const textMatches = useMemo<FeedbackItem[]>(() => {
+    if (!searchQuery.trim()) return data;
+    return search(searchIndex, searchQuery).map((hit) => hit.item);
+  }, [data, searchIndex, searchQuery]);
+
+  const counts = useMemo(() => facetCounts(textMatches, facets), [textMatches, facets]);
+  const categoryCounts = useMemo(() => new Map(counts.categories.map(({ value, count }) => [value, count])), [counts]);
+
   // Filter Logic (Standard vs AI)
-  const filteredData = useMemo(() => {
+  const filteredData = useMemo<AiResult[]>(() => {
     // If AI results exist, prioritize them
     if (aiAnalysisResults) {
       return aiAnalysisResults;
     }
 
-    // Standard Filter
-    return data.filter((item) => {
-      const matchesCategory =
-        selectedCategory === "All" || item.category === selectedCategory;
-      const matchesSearch =
-        item.problem.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        item.solution1.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        (item.solution2 && item.solution2.toLowerCase().includes(searchQuery.toLowerCase())) ||
-        item.category.toLowerCase().includes(searchQuery.toLowerCase());
-      return matchesCategory && matchesSearch;
-    });
-  }, [data, searchQuery, selectedCategory, aiAnalysisResults]);
+    // Standard Filter: ranked local search narrowed down by the selected facets
+    const filtered = textMatches.filter((item) => matchesFacets(item, facets));
+    return sortOrder === "severity" ? sortBySeverity(filtered) : filtered;
+  }, [textMatches, facets, sortOrder, aiAnalysisResults]);
 
-  const toggleExpand = (index: number) => {
-    setExpandedIndex(expandedIndex === index ? null : index);
-    setCopiedIndex(null);
+  // Report plain searches that found nothing, once the user has stopped typing
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (loading || aiAnalysisResults || !query || filteredData.length > 0) return;
+
+    const timer = setTimeout(() => {
+      const category = facets.categories.join(",");
+      track({ type: "search", query, results: 0, ...(category && { category }) });
+    }, 1500);
+    return () => clearTimeout(timer);
+  }, [loading, searchQuery, facets.categories, aiAnalysisResults, filteredData.length]);
+
+  const toggleFacet = (facet: FacetName, value: string) => {
+    setFacets(prev => ({
+      ...prev,
+      [facet]: prev[facet].includes(value) ? prev[facet].filter((selected) => selected !== value) : [...prev[facet], value],
+    }));
+    setExpandedId(null);
+    setAiAnalysisResults(null); // Clear AI results on filter click
+  };
+
+  const toggleExpand = (id: string) => {
+    if (expandedId !== id) track({ type: "expand", entryId: id });
+    setExpandedId(expandedId === id ? null : id);
+    setCopiedId(null);
+  };
+
+  // Opens a "함께 보면 좋은 피드백" entry. Filters and search are cleared when they would hide it.
+  const scrollTarget = useRef<string | null>(null);
+
+  const openRelated = (id: string) => {
+    if (!filteredData.some((item) => item.id === id)) {
+      setFacets(EMPTY_FACETS);
+      setSearchQuery("");
+      setAiAnalysisResults(null);
+    }
+    track({ type: "expand", entryId: id });
+    setExpandedId(id);
+    setCopiedId(null);
+    scrollTarget.current = id;
   };
 
-  const switchVersion = (e: React.MouseEvent, index: number, version: 1 | 2) => {
+  useEffect(() => {
+    if (!scrollTarget.current) return;
+    document.getElementById(`item-${scrollTarget.current}`)?.scrollIntoView({ block: "start", behavior: "smooth" });
+    scrollTarget.current = null;
+  }, [expandedId, filteredData]);
+
+  const switchVersion = (e: React.MouseEvent, id: string, version: SolutionVersion, current: SolutionVersion) => {
     e.stopPropagation();
-    setSelectedVersions(prev => ({ ...prev, [index]: version }));
-    setCopiedIndex(null);
+    if (version === CUSTOM && current !== CUSTOM) {
+      // Remember which original the rewrite is based on, so it stays one click away
+      setPersonalizeFrom(prev => ({ ...prev, [id]: current }));
+    }
+    setSelectedVersions(prev => ({ ...prev, [id]: version }));
+    setCopiedId(null);
+  };
+
+  const addToBasket = (e: React.MouseEvent, item: FeedbackItem, version: SolutionVersion, text: string) => {
+    e.stopPropagation();
+    basket.addItem({
+      key: basketKey(item, version),
+      entryId: item.id,
+      category: item.category,
+      problem: item.problem,
+      version: versionLabel(version),
+      text,
+    });
+  };
+
+  const handlePersonalize = async (item: FeedbackItem, variant: string) => {
+    if (!creatorDraft.trim()) return;
+
+    setPersonalized(prev => ({ ...prev, [item.id]: { ...prev[item.id], loading: true, error: undefined } }));
+
+    try {
+      const res = await fetch('/api/personalize', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: item.id, variant, draft: creatorDraft })
+      });
+      const body = await res.json();
+
+      if (!res.ok) {
+        throw new Error(describeAiError(res.status, body, 'Personalization Failed'));
+      }
+      setPersonalized(prev => ({ ...prev, [item.id]: { text: body.text } }));
+    } catch (e) {
+      console.error("Personalization Error", e);
+      setPersonalized(prev => ({
+        ...prev,
+        [item.id]: { ...prev[item.id], loading: false, error: e instanceof Error ? e.message : "맞춤 변환 중 오류가 발생했습니다." },
+      }));
+    }
   };
 
-  const copyToClipboard = (e: React.MouseEvent, text: string, index: number) => {
+  const copyToClipboard = (e: React.MouseEvent, text: string, item: FeedbackItem, version: SolutionVersion) => {
     e.stopPropagation();
     navigator.clipboard.writeText(text);
-    setCopiedIndex(index);
-    setTimeout(() => setCopiedIndex(null), 2000);
+    track({ type: "copy", entryId: item.id, version: version === CUSTOM ? "custom" : version });
+    // With a creator selected, a copy counts as sending it to them
+    creators.recordSent([{ entryId: item.id, version: versionLabel(version), text }])
+      .catch((error) => console.error("Failed to record sent feedback", error));
+    setCopiedId(item.id);
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
+  const copyPermalink = (e: React.MouseEvent, item: FeedbackItem, version: SolutionVersion) => {
+    e.stopPropagation();
+    navigator.clipboard.writeText(permalink(item, version));
+    setLinkCopiedId(item.id);
+    setTimeout(() => setLinkCopiedId(null), 2000);
   };
 
   const handleAiSearch = async () => {
     if (!searchQuery.trim()) return;
 
     setIsAiSearching(true);
+    setAiError(null);
     setAiAnalysisResults(null);
+    setIsLocalFallback(false);
 
     try {
       const res = await fetch('/api/ai-search', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ query: searchQuery })
+        body: JSON.stringify({ query: searchQuery, limit: AI_RESULT_LIMIT })
       });
 
       if (!res.ok) {
         const err = await res.json();
         if (res.status === 503) {
-          alert("⚠️ Gemini API Key가 설정되지 않았습니다. .env 파일을 확인해주세요.");
+          // No Gemini key on the server: fall back to the local ranked search
+          await handleLocalFallbackSearch();
         } else {
-          throw new Error(err.error || 'AI Search Failed');
+          setAiError({ status: res.status, message: describeAiError(res.status, err, "AI 검색 중 오류가 발생했습니다.") });
         }
         return;
       }
 
-      const results = await res.json();
+      const { results } = await res.json();
       setAiAnalysisResults(results);
-      setSelectedCategory("All"); // Reset category to show all AI results
+      setFacets(EMPTY_FACETS); // Reset filters to show all AI results
     } catch (e) {
       console.error("AI Search Error", e);
-      alert("AI 검색 중 오류가 발생했습니다.");
+      setAiError({ status: 0, message: "AI 검색 중 오류가 발생했습니다." });
     } finally {
       setIsAiSearching(false);
     }
   };
 
+  const handleLocalFallbackSearch = async () => {
+    const res = await fetch(`/api/search?q=${encodeURIComponent(searchQuery)}`);
+    if (!res.ok) throw new Error('Local Search Failed');
+
+    const { results } = await res.json();
+    setAiAnalysisResults(results);
+    setIsLocalFallback(true);
+    setFacets(EMPTY_FACETS);
+  };
+
   const clearAiResults = () => {
     setAiAnalysisResults(null);
     setSearchQuery("");
   };
 
   if (loading) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-gray-50">
-        <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-gray-900"></div>
-      </div>
-    )
+    return <LoadingSpinner />;
   }
 
   return (
@@ -138,36 +385,87 @@ export default function Home() {
           <h1 className="text-xl font-extrabold tracking-tight text-gray-900">
             📚 크리투스 피드백 백과사전
           </h1>
-          <span className="text-xs font-medium text-gray-500 bg-gray-100 px-2.5 py-1 rounded-lg">
-            Ver 1.3 (AI Search)
-          </span>
+          <div className="flex items-center gap-2">
+            <Link href="/diagnose" className="text-xs font-bold text-blue-600 bg-blue-50 hover:bg-blue-100 px-2.5 py-1 rounded-lg">
+              📝 초안 진단
+            </Link>
+            <Link href="/subtitles" className="text-xs font-bold text-blue-600 bg-blue-50 hover:bg-blue-100 px-2.5 py-1 rounded-lg">
+              🎬 자막 리포트
+            </Link>
+            <a href="/api/feedback/export?format=html" target="_blank" rel="noreferrer" className="text-xs font-bold text-blue-600 bg-blue-50 hover:bg-blue-100 px-2.5 py-1 rounded-lg">
+              📖 핸드북
+            </a>
+            <span className="text-xs font-medium text-gray-500 bg-gray-100 px-2.5 py-1 rounded-lg">
+              Ver 1.3 (AI Search)
+            </span>
+            <SessionBadge />
+          </div>
         </div>
       </header>
 
       <main className="max-w-4xl mx-auto px-6 mt-8">
 
+        {/* Creator the coach is currently giving feedback to */}
+        <div className="mb-6 flex items-center justify-end gap-2">
+          {variants.length > 1 && (
+            <select
+              value={preferredVariant}
+              onChange={(e) => setPreferredVariant(e.target.value)}
+              className="text-xs font-bold text-gray-600 bg-white border border-gray-200 rounded-lg px-2 py-1"
+              title="카드를 열 때 먼저 보여줄 솔루션"
+            >
+              <option value="">기본 솔루션: 첫 번째</option>
+              {variants.map((variant) => (
+                <option key={variant.label} value={variant.label}>기본 솔루션: {variant.label}</option>
+              ))}
+            </select>
+          )}
+          <CreatorPicker creators={creators} />
+        </div>
+
         {/* 1. Category Selection (First Step) */}
         <div className="mb-8">
-          <h2 className="text-sm font-bold text-gray-400 mb-3 uppercase tracking-wider">
+          <h2 className="text-sm font-bold text-gray-400 mb-3 uppercase tracking-wider flex items-center justify-between">
             Step 1. 대주제 선택
-          </h2>
-          <div className="flex flex-wrap gap-2">
-            {categories.map((category) => (
+            {!isFacetSelectionEmpty(facets) && (
               <button
-                key={category}
-                onClick={() => {
-                  setSelectedCategory(category);
-                  setExpandedIndex(null);
-                  setAiAnalysisResults(null); // Clear AI results on category click
-                }}
-                className={`px-5 py-3 rounded-xl text-base font-bold transition-all duration-200 border shadow-sm flex-grow md:flex-grow-0 text-center ${!aiAnalysisResults && selectedCategory === category
-                  ? "bg-gray-900 text-white border-gray-900 hover:bg-gray-800 shadow-md transform scale-105"
-                  : "bg-white text-gray-500 border-gray-200 hover:bg-gray-50 hover:border-gray-300"
-                  }`}
+                onClick={() => { setFacets(EMPTY_FACETS); setExpandedId(null); }}
+                className="text-xs font-bold normal-case text-blue-600 hover:underline"
               >
-                {category}
+                필터 초기화
               </button>
-            ))}
+            )}
+          </h2>
+          {/* Several categories can be selected; "All" clears the selection */}
+          <div className="flex flex-wrap gap-2">
+            {categories.map((category) => {
+              const isSelected = !aiAnalysisResults && (category === "All" ? facets.categories.length === 0 : facets.categories.includes(category));
+              const count = category === "All" ? null : categoryCounts.get(category) ?? 0;
+              return (
+                <button
+                  key={category}
+                  onClick={() => {
+                    if (category === "All") {
+                      setFacets(prev => ({ ...prev, categories: [] }));
+                      setExpandedId(null);
+                      setAiAnalysisResults(null); // Clear AI results on category click
+                    } else {
+                      toggleFacet("categories", category);
+                    }
+                  }}
+                  className={`px-5 py-3 rounded-xl text-base font-bold transition-all duration-200 border shadow-sm flex-grow md:flex-grow-0 text-center ${isSelected
+                    ? "bg-gray-900 text-white border-gray-900 hover:bg-gray-800 shadow-md transform scale-105"
+                    : "bg-white text-gray-500 border-gray-200 hover:bg-gray-50 hover:border-gray-300"
+                    } ${count === 0 && !isSelected ? "opacity-50" : ""}`}
+                >
+                  {category}
+                  {count !== null && <span className={`ml-1.5 text-xs ${isSelected ? "text-gray-300" : "text-gray-400"}`}>{count}</span>}
+                </button>
+              );
+            })}
+          </div>
+          <div className="mt-4">
+            <FacetFilters counts={counts} selected={facets} onToggle={toggleFacet} sort={sortOrder} onSortChange={setSortOrder} />
           </div>
         </div>
 
@@ -184,6 +482,7 @@ export default function Home() {
               value={searchQuery}
               onChange={(e) => {
                 setSearchQuery(e.target.value);
+                setAiError(null);
                 if (e.target.value === "") setAiAnalysisResults(null);
               }}
               onKeyDown={(e) => e.key === 'Enter' && handleAiSearch()}
@@ -217,11 +516,26 @@ export default function Home() {
             </div>
           </div>
 
+          {aiError && (
+            <div className="mt-2 flex items-center gap-2 text-xs font-bold text-red-600">
+              <span>{aiError.message}</span>
+              {aiError.status === 401 && (
+                <Link href={`/login?next=${encodeURIComponent(pathname)}`} className="text-blue-600 hover:underline">
+                  로그인하기 →
+                </Link>
+              )}
+            </div>
+          )}
+
           {/* AI Search Indicator */}
           {aiAnalysisResults && (
             <div className="mt-2 flex items-center gap-2 text-blue-600 animate-fade-in-up">
               <div className="flex-shrink-0 w-1.5 h-1.5 rounded-full bg-blue-500 animate-pulse"></div>
-              <span className="text-xs font-bold">AI가 '{searchQuery}'와(과) 가장 연관성 높은 결과를 찾았습니다.</span>
+              <span className="text-xs font-bold">
+                {isLocalFallback
+                  ? `AI 검색을 사용할 수 없어 '${searchQuery}'에 대한 로컬 검색 결과를 표시합니다.`
+                  : `AI가 '${searchQuery}'와(과) 가장 연관성 높은 결과를 찾았습니다.`}
+              </span>
             </div>
           )}
         </div>
@@ -235,17 +549,27 @@ export default function Home() {
 
           <div className="space-y-3">
             {filteredData.length > 0 ? (
-              filteredData.map((item, index) => {
-                const isExpanded = expandedIndex === index;
-                const isCopied = copiedIndex === index;
-                const currentVersion = selectedVersions[index] || 1;
-                const currentSolution = currentVersion === 1 ? item.solution1 : item.solution2;
-                const hasSolution2 = !!item.solution2;
+              filteredData.map((item) => {
+                const isExpanded = expandedId === item.id;
+                const isCopied = copiedId === item.id;
+                const isLinkCopied = linkCopiedId === item.id;
+                const selected = selectedVersions[item.id];
+                const defaultVersion = pickVariant(item, preferredVariant)?.label ?? "";
+                const currentVersion = selected === CUSTOM ? CUSTOM : pickVariant(item, selected ?? preferredVariant)?.label ?? "";
+                const originalVersion = personalizeFrom[item.id] ?? defaultVersion;
+                const personalization = personalized[item.id];
+                const currentSolution = currentVersion === CUSTOM
+                  ? personalization?.text || ""
+                  : item.solutions.find((variant) => variant.label === currentVersion)?.text ?? "";
+                const hasVariants = item.solutions.length > 1;
+                const isInBasket = basket.has(basketKey(item, currentVersion));
+                const sentRecord = creators.sentByEntry.get(item.id);
 
                 return (
                   <div
-                    key={index}
-                    onClick={() => !isExpanded && setExpandedIndex(index)}
+                    key={item.id}
+                    id={`item-${item.id}`}
+                    onClick={() => !isExpanded && toggleExpand(item.id)}
                     className={`bg-white rounded-2xl border transition-all duration-300 overflow-hidden ${isExpanded
                       ? "border-blue-500 ring-4 ring-blue-500/10 shadow-lg scale-[1.005] relative z-10"
                       : "border-gray-100 hover:border-gray-300 hover:shadow-md cursor-pointer"
@@ -258,18 +582,44 @@ export default function Home() {
                         Q
                       </div>
                       <div className="flex-1">
-                        <div className="flex items-center gap-2 mb-2">
+                        <div className="flex flex-wrap items-center gap-2 mb-2">
                           <span className="text-xs font-bold text-gray-500 bg-gray-100 px-2 py-0.5 rounded">
-                            {item.category}
+                            {item.category}{item.subcategory && ` › ${item.subcategory}`}
                           </span>
+                          {item.severity && (
+                            <span className={`text-xs font-bold px-2 py-0.5 rounded ${SEVERITY_STYLES[item.severity]}`}>
+                              심각도 {SEVERITY_LABELS[item.severity]}
+                            </span>
+                          )}
+                          {item.tags?.map((tag) => (
+                            <span key={tag} className="text-xs text-gray-400">#{tag}</span>
+                          ))}
+                          {sentRecord && (
+                            <span className="text-xs font-bold text-green-700 bg-green-50 px-2 py-0.5 rounded" title={`${sentRecord.version}으로 보냄`}>
+                              ✓ {creators.selected?.name}님께 보냄 · {formatSentDate(sentRecord.sentAt)}
+                            </span>
+                          )}
                         </div>
                         <h3 className={`text-lg md:text-xl font-bold leading-snug transition-colors ${isExpanded ? "text-gray-900" : "text-gray-700"
                           }`}>
-                          {item.problem}
+                          <Highlight text={item.problem} terms={matchTerms} />
                         </h3>
+                        {item.reason && (
+                          <div className="mt-3 flex items-start gap-2 text-sm text-blue-700 bg-blue-50/60 rounded-lg px-3 py-2">
+                            {typeof item.score === "number" && (
+                              <span className="flex-shrink-0 text-xs font-bold bg-blue-600 text-white px-2 py-0.5 rounded">
+                                관련도 {item.score}%
+                              </span>
+                            )}
+                            <p className="leading-snug">
+                              {item.quote && <span className="font-bold">&ldquo;{item.quote}&rdquo; </span>}
+                              {item.reason}
+                            </p>
+                          </div>
+                        )}
                       </div>
                       <button
-                        onClick={(e) => { e.stopPropagation(); isExpanded ? setExpandedIndex(null) : setExpandedIndex(index); }}
+                        onClick={(e) => { e.stopPropagation(); toggleExpand(item.id); }}
                         className={`flex-shrink-0 pt-1 p-1 -m-1 rounded-lg transition-colors ${isExpanded ? "text-blue-500 hover:bg-blue-50" : "text-gray-300 hover:text-gray-500"}`}
                       >
                         <svg className={`w-6 h-6 transition-transform duration-300 ${isExpanded ? "rotate-180" : ""}`} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7"></path></svg>
@@ -278,38 +628,69 @@ export default function Home() {
 
                     {/* Card Body (Expandable Solution) */}
                     <div
-                      className={`overflow-hidden transition-all duration-300 ease-in-out ${isExpanded ? "max-h-[800px] opacity-100" : "max-h-0 opacity-0"
+                      className={`overflow-hidden transition-all duration-300 ease-in-out ${isExpanded ? "max-h-[1400px] opacity-100" : "max-h-0 opacity-0"
                         }`}
                     >
                       <div className="px-5 pb-6 pt-0 pl-[4.5rem]">
                         <div className="p-5 bg-blue-50 rounded-xl border border-blue-100 text-gray-800 relative group/solution">
 
-                          {/* Version Tabs (Only if Solution 2 exists) */}
-                          {hasSolution2 && (
-                            <div className="flex gap-2 mb-4">
-                              <button
-                                onClick={(e) => switchVersion(e, index, 1)}
-                                className={`px-3 py-1.5 rounded-md text-xs font-bold transition-colors ${currentVersion === 1 ? 'bg-blue-600 text-white shadow-sm' : 'bg-blue-100 text-blue-600 hover:bg-blue-200'}`}
-                              >
-                                Ver 1
-                              </button>
+                          {/* Version Tabs (one per variant of this entry; the AI rewrite is always offered) */}
+                          <div className="flex flex-wrap gap-2 mb-4">
+                            {item.solutions.map((variant) => (
                               <button
-                                onClick={(e) => switchVersion(e, index, 2)}
-                                className={`px-3 py-1.5 rounded-md text-xs font-bold transition-colors ${currentVersion === 2 ? 'bg-blue-600 text-white shadow-sm' : 'bg-blue-100 text-blue-600 hover:bg-blue-200'}`}
+                                key={variant.label}
+                                onClick={(e) => switchVersion(e, item.id, variant.label, currentVersion)}
+                                title={[variant.tone, variant.length].filter(Boolean).join(" · ") || undefined}
+                                className={`px-3 py-1.5 rounded-md text-xs font-bold transition-colors ${currentVersion === variant.label ? 'bg-blue-600 text-white shadow-sm' : 'bg-blue-100 text-blue-600 hover:bg-blue-200'}`}
                               >
-                                Ver 2
+                                {variant.label}
                               </button>
-                            </div>
-                          )}
+                            ))}
+                            <button
+                              onClick={(e) => switchVersion(e, item.id, CUSTOM, currentVersion)}
+                              className={`px-3 py-1.5 rounded-md text-xs font-bold transition-colors ${currentVersion === CUSTOM ? 'bg-blue-600 text-white shadow-sm' : 'bg-blue-100 text-blue-600 hover:bg-blue-200'}`}
+                            >
+                              ✨ 내 영상 맞춤
+                            </button>
+                          </div>
 
-                          <div className="absolute top-4 left-5 font-bold text-blue-600 text-xs uppercase tracking-wide mb-2" style={{ top: hasSolution2 ? '3.5rem' : '1.25rem' }}>
-                            크리투스 솔루션 {hasSolution2 ? `(Ver ${currentVersion})` : ''}
+                          <div className="absolute top-4 left-5 font-bold text-blue-600 text-xs uppercase tracking-wide mb-2" style={{ top: '3.5rem' }}>
+                            크리투스 솔루션 {hasVariants || currentVersion === CUSTOM ? `(${versionLabel(currentVersion)})` : ''}
                           </div>
 
+                          {currentSolution && (
+                          <div className="absolute top-3 right-3 flex items-center gap-1.5">
+                          {/* Add to Basket Button */}
+                          <button
+                            onClick={(e) => addToBasket(e, item, currentVersion, currentSolution)}
+                            disabled={isInBasket}
+                            className={`p-1.5 rounded-lg transition-all flex items-center gap-1.5 ${isInBasket
+                              ? "bg-gray-100 text-gray-400"
+                              : "bg-blue-100 text-blue-500 hover:bg-blue-200 hover:text-blue-700"
+                              }`}
+                            title="피드백 바구니에 담기"
+                          >
+                            <span className="text-lg leading-6">🧺</span>
+                            <span className="text-xs font-bold hidden sm:inline">{isInBasket ? "담김" : "담기"}</span>
+                          </button>
+
+                          {/* Permalink Button */}
+                          <button
+                            onClick={(e) => copyPermalink(e, item, currentVersion)}
+                            className={`p-1.5 rounded-lg transition-all flex items-center gap-1.5 ${isLinkCopied
+                              ? "bg-green-100 text-green-700"
+                              : "bg-blue-100 text-blue-500 hover:bg-blue-200 hover:text-blue-700"
+                              }`}
+                            title="이 피드백 링크 복사"
+                          >
+                            <span className="text-lg leading-6">🔗</span>
+                            <span className="text-xs font-bold hidden sm:inline">{isLinkCopied ? "복사됨" : "링크"}</span>
+                          </button>
+
                           {/* Copy Button */}
                           <button
-                            onClick={(e) => copyToClipboard(e, currentSolution, index)}
-                            className={`absolute top-3 right-3 p-1.5 rounded-lg transition-all flex items-center gap-1.5 ${isCopied
+                            onClick={(e) => copyToClipboard(e, currentSolution, item, currentVersion)}
+                            className={`p-1.5 rounded-lg transition-all flex items-center gap-1.5 ${isCopied
                               ? "bg-green-100 text-green-700"
                               : "bg-blue-100 text-blue-500 hover:bg-blue-200 hover:text-blue-700"
                               }`}
@@ -327,12 +708,27 @@ export default function Home() {
                               </>
                             )}
                           </button>
+                          </div>
+                          )}
 
                           {/* Main Solution Text */}
-                          <div className="mt-6 text-base leading-relaxed text-gray-800 whitespace-pre-wrap font-medium" style={{ marginTop: hasSolution2 ? '3rem' : '2rem' }}>
-                            {currentSolution}
+                          <div className="mt-6 text-base leading-relaxed text-gray-800 whitespace-pre-wrap font-medium" style={{ marginTop: '3rem' }}>
+                            {currentVersion === CUSTOM ? (
+                              <PersonalizedSolution
+                                draft={creatorDraft}
+                                onDraftChange={setCreatorDraft}
+                                state={personalization}
+                                onGenerate={() => handlePersonalize(item, originalVersion)}
+                                onShowOriginal={() => setSelectedVersions(prev => ({ ...prev, [item.id]: originalVersion }))}
+                                originalLabel={versionLabel(originalVersion)}
+                              />
+                            ) : (
+                              <Highlight text={currentSolution} terms={matchTerms} />
+                            )}
                           </div>
                         </div>
+
+                        {isExpanded && <RelatedEntries id={item.id} onSelect={openRelated} />}
                       </div>
                     </div>
                   </div>
@@ -346,6 +742,8 @@ export default function Home() {
           </div>
         </div>
       </main>
+
+      <FeedbackBasket basket={basket} creators={creators} />
     </div>
   );
 }
@@ -0,0 +1,146 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { describeReportMode, formatReportMarkdown } from "@/lib/subtitles/markdown";
+import { formatTimestamp } from "@/lib/subtitles/parse";
+import type { SubtitleReport } from "@/lib/subtitles/report";
+
+export default function SubtitlesPage() {
+  const [file, setFile] = useState<File | null>(null);
+  const [report, setReport] = useState<SubtitleReport | null>(null);
+  const [reportName, setReportName] = useState("");
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAnalyze = async () => {
+    if (!file) return;
+
+    setIsAnalyzing(true);
+    setError(null);
+
+    try {
+      const form = new FormData();
+      form.append("file", file);
+
+      const res = await fetch("/api/subtitles", { method: "POST", body: form });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Subtitle Analysis Failed");
+
+      setReport(body);
+      setReportName(file.name.replace(/\.(srt|vtt)$/i, ""));
+    } catch (e) {
+      console.error("Subtitle Analysis Error", e);
+      setError(e instanceof Error ? e.message : "자막 분석 중 오류가 발생했습니다.");
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const downloadMarkdown = () => {
+    if (!report) return;
+
+    const markdown = formatReportMarkdown(report, `자막 피드백 리포트: ${reportName}`);
+    const url = URL.createObjectURL(new Blob([markdown], { type: "text/markdown;charset=utf-8" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${reportName}-feedback.md`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const flagged = report?.entries.filter((entry) => entry.matches.length > 0) ?? [];
+
+  return (
+    <div className="min-h-screen bg-gray-50 text-gray-900 font-sans pb-20">
+      <header className="bg-white border-b border-gray-200 sticky top-0 z-10 shadow-sm">
+        <div className="max-w-4xl mx-auto px-6 py-4 flex items-center justify-between">
+          <h1 className="text-xl font-extrabold tracking-tight text-gray-900">
+            🎬 자막 리포트
+          </h1>
+          <Link href="/" className="text-xs font-bold text-gray-500 hover:text-gray-900 bg-gray-100 px-2.5 py-1 rounded-lg">
+            ← 백과사전
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-6 mt-8 space-y-8">
+        <div>
+          <h2 className="text-sm font-bold text-gray-400 mb-3 uppercase tracking-wider">
+            Step 1. 자막 파일 업로드 (SRT / WebVTT)
+          </h2>
+          <div className="p-5 bg-white rounded-2xl border border-dashed border-gray-300 flex flex-col sm:flex-row sm:items-center gap-4">
+            <input
+              type="file"
+              accept=".srt,.vtt,text/vtt,application/x-subrip"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              className="flex-1 text-sm text-gray-600 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:text-sm file:font-bold file:bg-gray-100 file:text-gray-700 hover:file:bg-gray-200"
+            />
+            <button
+              onClick={handleAnalyze}
+              disabled={!file || isAnalyzing}
+              className={`px-5 py-2.5 rounded-lg font-bold text-sm transition-all ${!file || isAnalyzing
+                ? "bg-gray-100 text-gray-400 cursor-not-allowed"
+                : "bg-blue-600 text-white hover:bg-blue-700 shadow-md active:scale-95"
+                }`}
+            >
+              {isAnalyzing ? "분석 중..." : "분석하기"}
+            </button>
+          </div>
+          {error && <p className="mt-2 text-sm font-bold text-red-600">{error}</p>}
+        </div>
+
+        {report && (
+          <div>
+            <h2 className="text-sm font-bold text-gray-400 mb-3 uppercase tracking-wider flex items-center justify-between">
+              Step 2. 구간별 피드백
+              <span className="flex items-center gap-3 normal-case tracking-normal">
+                <span className="text-xs font-normal text-gray-400">
+                  {describeReportMode(report)} · 자막 {report.cueCount}개 · {formatTimestamp(report.durationMs)}
+                </span>
+                <button
+                  onClick={downloadMarkdown}
+                  className="text-xs font-bold text-blue-600 bg-blue-50 hover:bg-blue-100 px-2.5 py-1 rounded-lg"
+                >
+                  Markdown 내보내기
+                </button>
+              </span>
+            </h2>
+
+            <div className="space-y-3">
+              {flagged.length === 0 && (
+                <div className="text-center py-12 text-base text-gray-400 bg-white rounded-2xl border border-dashed border-gray-200">
+                  <p>백과사전의 문제점과 연결된 구간이 없습니다.</p>
+                </div>
+              )}
+              {flagged.map((entry) => (
+                <div key={entry.start} className="bg-white rounded-2xl border border-gray-100 p-5 flex gap-4">
+                  <div className="flex-shrink-0 w-28">
+                    <span className={`inline-block text-xs font-bold font-mono px-2 py-1 rounded ${entry.opening ? "bg-amber-100 text-amber-800" : "bg-gray-100 text-gray-600"}`}>
+                      {formatTimestamp(entry.start)}–{formatTimestamp(entry.end)}
+                    </span>
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-gray-500 mb-3">&ldquo;{entry.text}&rdquo;</p>
+                    <ul className="space-y-2">
+                      {entry.matches.map((match) => (
+                        <li key={match.id} className="border-l-4 border-blue-200 pl-4">
+                          <div className="flex items-center gap-2 mb-1">
+                            <span className="text-xs font-bold text-gray-500 bg-gray-100 px-2 py-0.5 rounded">{match.category}</span>
+                            <span className="text-xs font-bold text-blue-600">관련도 {match.score}%</span>
+                          </div>
+                          <p className="font-bold text-gray-800">{match.problem}</p>
+                          {match.reason && <p className="text-sm text-gray-500 mt-1">{match.reason}</p>}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import type { ClientEvent } from './types';
+
+const MAX_QUERY_LENGTH = 200;
+const MAX_ID_LENGTH = 64;
+
+function text(value: unknown, maxLength: number): string | null {
+    if (typeof value !== 'string') return null;
+    const trimmed = value.trim();
+    return trimmed ? trimmed.slice(0, maxLength) : null;
+}
+
+// Validates one incoming event from the untrusted ingest endpoint; anything malformed is dropped,
+// and so are server-only types such as 'ai-search'.
+export function parseEvent(raw: unknown): ClientEvent | null {
+    if (!raw || typeof raw !== 'object') return null;
+    const event = raw as Record<string, unknown>;
+
+    switch (event.type) {
+        case 'copy': {
+            const entryId = text(event.entryId, MAX_ID_LENGTH);
+            const version = text(event.version, 50);
+            return entryId && version ? { type: 'copy', entryId, version } : null;
+        }
+        case 'expand': {
+            const entryId = text(event.entryId, MAX_ID_LENGTH);
+            return entryId ? { type: 'expand', entryId } : null;
+        }
+        case 'search': {
+            const query = text(event.query, MAX_QUERY_LENGTH);
+            const results = Number(event.results);
+            if (!query || !Number.isInteger(results) || results < 0) return null;
+            const category = text(event.category, 50) ?? undefined;
+            return { type: 'search', query, results, ...(category && { category }) };
+        }
+        default:
+            return null;
+    }
+}
@@ -0,0 +1,53 @@
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { AnalyticsEvent, EventOrigin, StoredEvent } from './types';
+
+const DEFAULT_ANALYTICS_PATH = '.data/analytics.jsonl';
+
+function getAnalyticsPath(): string {
+    const filePath = process.env.ANALYTICS_PATH || DEFAULT_ANALYTICS_PATH;
+    return path.isAbsolute(filePath) ? filePath : path.join(process.cwd(), filePath);
+}
+
+export function isAnalyticsEnabled(): boolean {
+    return process.env.ANALYTICS_DISABLED !== '1';
+}
+
+// Events are appended as JSON lines: cheap to write, and small enough to scan in full for the dashboard.
+// `origin` is stored with each event, so signals that must not be forgeable (see lib/related) can
+// ignore what came in through the public ingest endpoint.
+export async function recordEvents(events: AnalyticsEvent[], origin: EventOrigin): Promise<void> {
+    if (events.length === 0 || !isAnalyticsEnabled()) return;
+
+    const filePath = getAnalyticsPath();
+    const at = new Date().toISOString();
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await appendFile(filePath, events.map(event => JSON.stringify({ ...event, at, origin }) + '\n').join(''));
+}
+
+// Fire-and-forget variant for request handlers: usage tracking must never fail the request itself.
+export function recordEventsInBackground(events: AnalyticsEvent[]): void {
+    recordEvents(events, 'server').catch(error => console.error('[ANALYTICS] Failed to record events:', error));
+}
+
+export async function readEvents(since?: Date): Promise<StoredEvent[]> {
+    let content: string;
+    try {
+        content = await readFile(getAnalyticsPath(), 'utf8');
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw error;
+    }
+
+    const events: StoredEvent[] = [];
+    for (const line of content.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+            const event = JSON.parse(line) as StoredEvent;
+            if (!since || new Date(event.at) >= since) events.push(event);
+        } catch {
+            // A partially written last line (e.g. after a crash) is skipped
+        }
+    }
+    return events;
+}
@@ -0,0 +1,100 @@
+import type { FeedbackItem } from '../feedback/types';
+import type { StoredEvent } from './types';
+
+export type EntryUsage = Pick<FeedbackItem, 'id' | 'category' | 'problem'> & {
+    copies: number;
+    copiesByVersion: Record<string, number>;
+    expansions: number;
+    // How often AI search returned this entry
+    aiMatches: number;
+};
+
+export type UnmetSearch = {
+    query: string;
+    count: number;
+    lastAt: string;
+    // Which search came up empty: the plain filter, AI search, or both
+    kinds: ('search' | 'ai-search')[];
+};
+
+export type UsageSummary = {
+    since: string;
+    totals: Record<StoredEvent['type'], number>;
+    topEntries: EntryUsage[];
+    unusedEntries: Pick<FeedbackItem, 'id' | 'category' | 'problem'>[];
+    unmetSearches: UnmetSearch[];
+};
+
+const TOP_ENTRIES = 20;
+const TOP_UNMET_SEARCHES = 30;
+
+function queryKey(query: string): string {
+    return query.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function usageScore(usage: EntryUsage): number {
+    // A copy means the solution was actually sent to a creator, so it counts the most
+    return usage.copies * 3 + usage.expansions + usage.aiMatches;
+}
+
+export function summarizeUsage(events: StoredEvent[], items: FeedbackItem[], since: Date): UsageSummary {
+    const totals: UsageSummary['totals'] = { 'copy': 0, 'expand': 0, 'search': 0, 'ai-search': 0 };
+    const usage = new Map<string, EntryUsage>(items.map(({ id, category, problem }) => [
+        id,
+        { id, category, problem, copies: 0, copiesByVersion: {}, expansions: 0, aiMatches: 0 },
+    ]));
+    const unmet = new Map<string, UnmetSearch>();
+
+    const noteUnmet = (query: string, at: string, kind: UnmetSearch['kinds'][number]) => {
+        const key = queryKey(query);
+        const entry = unmet.get(key) ?? { query, count: 0, lastAt: at, kinds: [] };
+        entry.count++;
+        if (at > entry.lastAt) entry.lastAt = at;
+        if (!entry.kinds.includes(kind)) entry.kinds.push(kind);
+        unmet.set(key, entry);
+    };
+
+    for (const event of events) {
+        totals[event.type]++;
+        switch (event.type) {
+            case 'copy': {
+                const entry = usage.get(event.entryId);
+                if (!entry) break;
+                entry.copies++;
+                entry.copiesByVersion[event.version] = (entry.copiesByVersion[event.version] ?? 0) + 1;
+                break;
+            }
+            case 'expand': {
+                const entry = usage.get(event.entryId);
+                if (entry) entry.expansions++;
+                break;
+            }
+            case 'search':
+                if (event.results === 0) noteUnmet(event.query, event.at, 'search');
+                break;
+            case 'ai-search':
+                if (event.resultIds.length === 0) noteUnmet(event.query, event.at, 'ai-search');
+                for (const id of event.resultIds) {
+                    const entry = usage.get(id);
+                    if (entry) entry.aiMatches++;
+                }
+                break;
+        }
+    }
+
+    const entries = [...usage.values()];
+    return {
+        since: since.toISOString(),
+        totals,
+        topEntries: entries
+            .filter(entry => usageScore(entry) > 0)
+            .sort((a, b) => usageScore(b) - usageScore(a))
+            .slice(0, TOP_ENTRIES),
+        unusedEntries: entries
+            .filter(entry => usageScore(entry) === 0)
+            .map(({ id, category, problem }) => ({ id, category, problem })),
+        unmetSearches: [...unmet.values()]
+            .sort((a, b) => b.count - a.count || b.lastAt.localeCompare(a.lastAt))
+            .slice(0, TOP_UNMET_SEARCHES),
+    };
+}
@@ -0,0 +1,30 @@
+// Client-side usage tracking. Events are batched and sent with sendBeacon so they survive navigation.
+import type { ClientEvent } from './types';
+
+const ENDPOINT = '/api/events';
+const FLUSH_DELAY_MS = 2000;
+
+let queue: ClientEvent[] = [];
+let timer: ReturnType<typeof setTimeout> | undefined;
+
+function flush(): void {
+    clearTimeout(timer);
+    timer = undefined;
+    if (queue.length === 0) return;
+
+    const body = JSON.stringify({ events: queue });
+    queue = [];
+    if (navigator.sendBeacon?.(ENDPOINT, new Blob([body], { type: 'application/json' }))) return;
+
+    fetch(ENDPOINT, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body, keepalive: true })
+        .catch(error => console.error('Failed to send usage events', error));
+}
+
+if (typeof window !== 'undefined') {
+    window.addEventListener('pagehide', flush);
+}
+
+export function track(event: ClientEvent): void {
+    queue.push(event);
+    timer ??= setTimeout(flush, FLUSH_DELAY_MS);
+}
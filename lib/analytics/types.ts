@@ -0,0 +1,21 @@
+// Usage events sent by the page (and recorded by the AI search route) so editors can see what gets used.
+export type AnalyticsEvent =
+    | { type: 'copy'; entryId: string; version: string }
+    | { type: 'expand'; entryId: string }
+    // Plain (local) searches are only reported when they found nothing
+    | { type: 'search'; query: string; category?: string; results: number }
+    | { type: 'ai-search'; query: string; resultIds: string[] };
+
+export type AnalyticsEventType = AnalyticsEvent['type'];
+
+// What the page may report through /api/events. AI searches are only ever recorded by the server.
+export type ClientEvent = Exclude<AnalyticsEvent, { type: 'ai-search' }>;
+
+// Who recorded an event: the server itself, or the page through /api/events
+export type EventOrigin = 'server' | 'client';
+
+export type StoredEvent = AnalyticsEvent & {
+    at: string;
+    // Missing on events recorded before origins were tracked; treat those as untrusted
+    origin?: EventOrigin;
+};
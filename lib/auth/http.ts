@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { getSession, isAuthEnabled } from './session';
+
+// Number of reverse proxies in front of the app (TRUST_PROXY, default 0). Forwarding headers are written by
+// the client unless a proxy overwrites them, so they are only read when one is configured.
+function trustedProxyHops(): number {
+    const hops = Number(process.env.TRUST_PROXY);
+    return Number.isInteger(hops) && hops > 0 ? hops : 0;
+}
+
+// The address the nearest trusted proxy saw, i.e. the entry it appended to X-Forwarded-For.
+// Without a trusted proxy every request counts as "unknown", so per-IP limits act as one shared limit.
+export function clientIp(request: Request): string {
+    const hops = trustedProxyHops();
+    if (hops === 0) return 'unknown';
+
+    const forwarded = (request.headers.get('x-forwarded-for') || '').split(',').map(ip => ip.trim()).filter(Boolean);
+    return forwarded[forwarded.length - hops] || request.headers.get('x-real-ip') || 'unknown';
+}
+
+// Who is making the request: the signed-in user, or the client IP when login is turned off.
+// Returns the response to send back when login is required but missing.
+export async function identifyRequester(request: Request): Promise<string | NextResponse> {
+    if (!isAuthEnabled()) return `ip:${clientIp(request)}`;
+
+    const session = await getSession(request);
+    if (!session) {
+        return NextResponse.json({ error: 'Login required' }, { status: 401 });
+    }
+    return `user:${session.user}`;
+}
@@ -0,0 +1,52 @@
+// Sliding-window request counter, kept in memory. Good enough for a single server instance;
+// counts start over when the server restarts.
+
+export type RateLimiter = {
+    // Seconds until `key` may make another request under `limit`, or 0 when it may now.
+    // Doesn't count the request; a limit of 0 means unlimited.
+    retryAfter(key: string, limit: number): number;
+    // Counts a request for `key`.
+    hit(key: string): void;
+    // Takes back the latest hit for `key`, for a request that was turned away after all.
+    undo(key: string): void;
+};
+
+// Above this many keys, idle ones are swept on the next hit so the map can't grow without bound
+const SWEEP_THRESHOLD = 10_000;
+
+export function createRateLimiter(windowMs: number): RateLimiter {
+    const requests = new Map<string, number[]>();
+
+    const sweep = () => {
+        const since = Date.now() - windowMs;
+        for (const [key, times] of requests) {
+            if (times[times.length - 1] <= since) requests.delete(key);
+        }
+    };
+
+    const recent = (key: string): number[] => {
+        const since = Date.now() - windowMs;
+        const times = (requests.get(key) ?? []).filter(time => time > since);
+        if (times.length > 0) requests.set(key, times);
+        else requests.delete(key);
+        return times;
+    };
+
+    return {
+        retryAfter(key, limit) {
+            if (limit <= 0) return 0;
+            const times = recent(key);
+            if (times.length < limit) return 0;
+            return Math.max(1, Math.ceil((times[times.length - limit] + windowMs - Date.now()) / 1000));
+        },
+        hit(key) {
+            if (requests.size > SWEEP_THRESHOLD) sweep();
+            requests.set(key, [...recent(key), Date.now()]);
+        },
+        undo(key) {
+            const times = recent(key).slice(0, -1);
+            if (times.length > 0) requests.set(key, times);
+            else requests.delete(key);
+        },
+    };
+}
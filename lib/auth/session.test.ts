@@ -0,0 +1,19 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { readCookie } from './session';
+
+const withCookie = (cookie: string) => new Request('http://localhost/', { headers: { cookie } });
+
+describe('readCookie', () => {
+    it('returns the decoded value of the named cookie', () => {
+        assert.equal(readCookie(withCookie('other=1; feedback_session=a%2Eb'), 'feedback_session'), 'a.b');
+    });
+
+    it('treats a malformed value as no cookie', () => {
+        assert.equal(readCookie(withCookie('feedback_session=%E0%A4%A'), 'feedback_session'), undefined);
+    });
+
+    it('returns undefined when the cookie is missing', () => {
+        assert.equal(readCookie(withCookie('other=1'), 'feedback_session'), undefined);
+    });
+});
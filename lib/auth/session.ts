@@ -0,0 +1,122 @@
+import { safeDecode } from '../decode';
+
+// Team login: a shared passcode (TEAM_PASSCODE), optionally restricted to an email allowlist
+// (TEAM_ALLOWLIST), and a signed session cookie. Uses Web Crypto only, so it also runs in proxy.ts.
+
+export const SESSION_COOKIE = 'feedback_session';
+
+const DEFAULT_SESSION_DAYS = 30;
+
+export type Session = {
+    // The email used to sign in, or "team" when there is no allowlist
+    user: string;
+    // Expiry, in seconds since the epoch
+    exp: number;
+};
+
+// Login is only enforced once a passcode is configured, so local development keeps working without one.
+export function isAuthEnabled(): boolean {
+    return Boolean(process.env.TEAM_PASSCODE);
+}
+
+export function getSessionMaxAge(): number {
+    return (Number(process.env.SESSION_DAYS) || DEFAULT_SESSION_DAYS) * 24 * 60 * 60;
+}
+
+function getAllowlist(): Set<string> {
+    return new Set((process.env.TEAM_ALLOWLIST || '')
+        .split(',')
+        .map(email => email.trim().toLowerCase())
+        .filter(Boolean));
+}
+
+export function isAllowlistEnabled(): boolean {
+    return getAllowlist().size > 0;
+}
+
+// Sessions are signed with SESSION_SECRET, or the passcode itself: changing the passcode signs everyone out.
+function getSecret(): string {
+    return process.env.SESSION_SECRET || process.env.TEAM_PASSCODE || '';
+}
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+    return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): string {
+    return new TextDecoder().decode(Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), c => c.charCodeAt(0)));
+}
+
+async function sign(payload: string): Promise<string> {
+    const key = await crypto.subtle.importKey('raw', encoder.encode(getSecret()), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    return toBase64Url(new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(payload))));
+}
+
+// Compares in time independent of where the strings differ
+function safeEqual(a: string, b: string): boolean {
+    let diff = a.length ^ b.length;
+    for (let i = 0; i < Math.max(a.length, b.length); i++) {
+        diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+    }
+    return diff === 0;
+}
+
+// The signed-in user, or null when the credentials don't match.
+export function checkCredentials(email: string, passcode: string): string | null {
+    const expected = process.env.TEAM_PASSCODE;
+    if (!expected || !safeEqual(passcode, expected)) return null;
+
+    const allowlist = getAllowlist();
+    if (allowlist.size === 0) return 'team';
+    const normalized = email.trim().toLowerCase();
+    return allowlist.has(normalized) ? normalized : null;
+}
+
+// Other tools read /api/feedback with one of READ_API_TOKENS (comma separated) instead of a login.
+export function isReadApiToken(token: string): boolean {
+    return (process.env.READ_API_TOKENS || '')
+        .split(',')
+        .map(candidate => candidate.trim())
+        .some(candidate => candidate && safeEqual(token, candidate));
+}
+
+// "<payload>.<signature>", both base64url
+export async function createSessionToken(user: string): Promise<string> {
+    const session: Session = { user, exp: Math.floor(Date.now() / 1000) + getSessionMaxAge() };
+    const payload = toBase64Url(encoder.encode(JSON.stringify(session)));
+    return `${payload}.${await sign(payload)}`;
+}
+
+export async function verifySessionToken(token: string | undefined): Promise<Session | null> {
+    if (!token || !getSecret()) return null;
+    const [payload, signature] = token.split('.');
+    if (!payload || !signature || !safeEqual(signature, await sign(payload))) return null;
+
+    try {
+        const session = JSON.parse(fromBase64Url(payload)) as Session;
+        if (typeof session.user !== 'string' || session.exp * 1000 < Date.now()) return null;
+        // Someone removed from the allowlist loses access even with a valid cookie
+        const allowlist = getAllowlist();
+        if (allowlist.size > 0 && !allowlist.has(session.user)) return null;
+        return session;
+    } catch {
+        return null;
+    }
+}
+
+// A value that isn't valid percent-encoding counts as no cookie.
+export function readCookie(request: Request, name: string): string | undefined {
+    for (const part of (request.headers.get('cookie') || '').split(';')) {
+        const separator = part.indexOf('=');
+        if (separator !== -1 && part.slice(0, separator).trim() === name) {
+            return safeDecode(part.slice(separator + 1).trim()) ?? undefined;
+        }
+    }
+    return undefined;
+}
+
+export function getSession(request: Request): Promise<Session | null> {
+    return verifySessionToken(readCookie(request, SESSION_COOKIE));
+}
@@ -0,0 +1,70 @@
+// The feedback basket: solutions a coach collects from several cards to send as one message.
+// Pure data + formatting, shared by the basket hook and its panel.
+
+export type BasketItem = {
+    // Identifies the card and version the item came from, so it isn't added twice
+    key: string;
+    entryId: string;
+    category: string;
+    problem: string;
+    version: string;
+    // The solution text, possibly edited by the coach
+    text: string;
+};
+
+export type BasketState = {
+    items: BasketItem[];
+    greeting: string;
+    signOff: string;
+};
+
+export type BasketExportFormat = 'text' | 'markdown' | 'chat';
+
+export const EMPTY_BASKET: BasketState = { items: [], greeting: '', signOff: '' };
+
+export const GREETING_TEMPLATES = [
+    '안녕하세요! 이번 영상 피드백 드립니다.',
+    '안녕하세요, 크리투스 코치입니다. 영상 잘 봤습니다! 아래 내용 참고해주세요.',
+    '이번 주 영상도 고생 많으셨습니다. 몇 가지만 짚어드릴게요.',
+];
+
+export const SIGN_OFF_TEMPLATES = [
+    '궁금한 점 있으면 편하게 물어봐주세요!',
+    '다음 영상도 기대하겠습니다. 화이팅입니다!',
+    '수정하신 버전 올라오면 다시 봐드릴게요.',
+];
+
+export const BASKET_EXPORT_LABELS: Record<BasketExportFormat, string> = {
+    text: '텍스트',
+    markdown: 'Markdown',
+    chat: '채팅용 (번호)',
+};
+
+function formatItems(items: BasketItem[], format: BasketExportFormat): string[] {
+    switch (format) {
+        case 'text':
+            return items.map(item => item.text.trim());
+        case 'markdown':
+            return items.map((item, i) => `### ${i + 1}. ${item.problem}\n\n${item.text.trim()}`);
+        case 'chat':
+            return items.map((item, i) => `${i + 1}) ${item.problem}\n→ ${item.text.trim()}`);
+    }
+}
+
+export function formatBasket(state: BasketState, format: BasketExportFormat): string {
+    const parts = [
+        state.greeting.trim(),
+        ...formatItems(state.items, format),
+        state.signOff.trim(),
+    ].filter(Boolean);
+
+    return parts.join('\n\n');
+}
+
+export function moveItem<T>(items: T[], from: number, to: number): T[] {
+    if (to < 0 || to >= items.length) return items;
+    const next = [...items];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    return next;
+}
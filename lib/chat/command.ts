@@ -0,0 +1,37 @@
+// A slash command as the chat service posts it, e.g. "/피드백 자막이 너무 많아요".
+// Slack sends it form-encoded; the same fields are accepted as JSON for other bots and local testing.
+
+export type ChatCommand = {
+    // The command as typed, e.g. "/피드백"
+    command: string;
+    // Everything after the command
+    text: string;
+    user: string;
+    // Where to post a delayed reply. Only set by the chat service; local tests leave it out.
+    responseUrl: string | null;
+};
+
+function stringField(fields: Record<string, unknown>, ...keys: string[]): string {
+    for (const key of keys) {
+        const value = fields[key];
+        if (typeof value === 'string' && value.trim()) return value.trim();
+    }
+    return '';
+}
+
+export function parseChatCommand(body: string, contentType: string): ChatCommand {
+    const fields: Record<string, unknown> = contentType.includes('application/json')
+        ? JSON.parse(body)
+        : Object.fromEntries(new URLSearchParams(body));
+
+    return {
+        command: stringField(fields, 'command') || '/피드백',
+        text: stringField(fields, 'text'),
+        user: stringField(fields, 'user_id', 'user_name', 'user') || 'unknown',
+        responseUrl: stringField(fields, 'response_url') || null,
+    };
+}
+
+export function isHelpRequest(command: ChatCommand): boolean {
+    return !command.text || ['help', '도움말'].includes(command.text.toLowerCase());
+}
@@ -0,0 +1,62 @@
+import { primarySolution } from '../feedback/variants';
+import type { ChatLookup } from './lookup';
+
+// Replies in Slack's message format: `text` in mrkdwn (*bold*, "> " quotes, <url|label> links).
+// Ephemeral replies are only shown to the coach who typed the command.
+export type ChatReply = {
+    response_type: 'ephemeral' | 'in_channel';
+    text: string;
+};
+
+// Keeps a reply readable in a chat window; the permalink has the full text
+const MAX_SOLUTION_LENGTH = 600;
+
+// The three characters mrkdwn treats as control characters
+function escapeMrkdwn(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function quote(text: string): string {
+    const clipped = text.length > MAX_SOLUTION_LENGTH ? `${text.slice(0, MAX_SOLUTION_LENGTH).trimEnd()}…` : text;
+    return escapeMrkdwn(clipped).split('\n').map(line => `> ${line}`).join('\n');
+}
+
+export function permalinkFor(baseUrl: string, id: string): string {
+    return `${baseUrl}/item/${encodeURIComponent(id)}`;
+}
+
+export function formatLookupReply(query: string, lookup: ChatLookup, baseUrl: string): ChatReply {
+    const mode = lookup.mode === 'ai' ? 'AI 검색' : '로컬 검색';
+    if (lookup.results.length === 0) {
+        return {
+            response_type: 'ephemeral',
+            text: `'${escapeMrkdwn(query)}'에 맞는 피드백을 찾지 못했습니다 (${mode}). 다른 표현으로 다시 검색해보세요.`,
+        };
+    }
+
+    const blocks = lookup.results.map((item, i) => [
+        `*${i + 1}. [${escapeMrkdwn(item.category)}] ${escapeMrkdwn(item.problem)}*`,
+        ...(item.reason ? [`_${escapeMrkdwn(item.reason)}_`] : []),
+        quote(primarySolution(item)),
+        `<${permalinkFor(baseUrl, item.id)}|자세히 보기>`,
+    ].join('\n'));
+
+    return {
+        response_type: 'ephemeral',
+        text: [`🔍 '${escapeMrkdwn(query)}' 관련 피드백 (${mode})`, ...blocks].join('\n\n'),
+    };
+}
+
+export function helpReply(command: string): ChatReply {
+    return {
+        response_type: 'ephemeral',
+        text: [
+            `*${command} <문제 상황>* 으로 피드백 백과사전을 검색합니다.`,
+            `예: \`${command} 자막이 너무 많아요\``,
+        ].join('\n'),
+    };
+}
+
+export function errorReply(text: string): ChatReply {
+    return { response_type: 'ephemeral', text: `⚠️ ${text}` };
+}
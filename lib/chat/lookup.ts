@@ -0,0 +1,50 @@
+import { recordEventsInBackground } from '../analytics/store';
+import type { FeedbackItem } from '../feedback/types';
+import { consumeAiQuota } from '../llm/limits';
+import { describeProvider, getLlmProvider } from '../llm/provider';
+import { aiSearch } from '../llm/search';
+import { search } from '../search/engine';
+import { getSearchIndex } from '../search/server';
+
+export const DEFAULT_CHAT_RESULTS = 3;
+
+export type ChatMatch = FeedbackItem & {
+    // Set in "ai" mode
+    reason?: string;
+};
+
+export type ChatLookup = {
+    mode: 'ai' | 'local';
+    // Set in "ai" mode
+    provider?: string;
+    source: string;
+    results: ChatMatch[];
+};
+
+async function lookupLocally(query: string, limit: number): Promise<ChatLookup> {
+    const { feedback, index } = await getSearchIndex();
+    return { mode: 'local', source: feedback.source, results: search(index, query, { limit }).map(hit => hit.item) };
+}
+
+// The same lookup as the page: AI search when an LLM is configured, the local index otherwise.
+// A chat command always gets an answer, so an AI limit or failure falls back to local search instead of an error.
+export async function lookupFeedback(query: string, requester: string, limit = DEFAULT_CHAT_RESULTS): Promise<ChatLookup> {
+    const provider = getLlmProvider();
+    if (!provider) return lookupLocally(query, limit);
+
+    const exceeded = await consumeAiQuota(requester);
+    if (exceeded) {
+        console.warn(`[CHAT] ${requester} hit the ${exceeded.scope} limit, using local search`);
+        return lookupLocally(query, limit);
+    }
+
+    const providerName = describeProvider(provider);
+    try {
+        const { source, results } = await aiSearch(provider, query, limit);
+        recordEventsInBackground([{ type: 'ai-search', query, resultIds: results.map(result => result.id) }]);
+        return { mode: 'ai', provider: providerName, source, results };
+    } catch (error) {
+        console.error(`[CHAT] ${providerName} failed, falling back to local search:`, error);
+        return lookupLocally(query, limit);
+    }
+}
@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { signChatRequest, verifyChatSignature } from './signature';
+
+const secret = 'test-secret';
+const body = 'command=%2F%ED%94%BC%EB%93%9C%EB%B0%B1&text=%EC%9E%90%EB%A7%89&user_id=U1';
+const timestamp = 1_700_000_000;
+const now = timestamp * 1000;
+const signature = signChatRequest(body, secret, timestamp);
+
+describe('signChatRequest', () => {
+    it("matches the example in Slack's documentation", () => {
+        const slackBody = 'token=xyzz0WbapA4vBCDEFasx0q6G&team_id=T1DC2JH3J&team_domain=testteamnow&channel_id=G8PSS9T3V&channel_name=foobar&user_id=U2CERLKJA&user_name=roadrunner&command=%2Fwebhook-collect&text=&response_url=https%3A%2F%2Fhooks.slack.com%2Fcommands%2FT1DC2JH3J%2F397700885554%2F96rGlfmibIGlgcZRskXaIFfN&trigger_id=398738663015.47445629121.803a0bc887a14d10d2c447fce8b6703c';
+        assert.equal(
+            signChatRequest(slackBody, '8f742231b10e8888abcd99yyyzzz85a5', 1531420618),
+            'v0=a2114d57b48eac39b9ad189dd8316235a7b4a8d21a10bd27519666489c69b503',
+        );
+    });
+});
+
+describe('verifyChatSignature', () => {
+    it('accepts a valid signature', () => {
+        assert.equal(verifyChatSignature(body, String(timestamp), signature, secret, now), true);
+    });
+
+    it('rejects a tampered body', () => {
+        assert.equal(verifyChatSignature(`${body}&text=other`, String(timestamp), signature, secret, now), false);
+    });
+
+    it('rejects a signature made with another secret', () => {
+        assert.equal(verifyChatSignature(body, String(timestamp), signChatRequest(body, 'other', timestamp), secret, now), false);
+    });
+
+    it('rejects a stale or future timestamp', () => {
+        const sixMinutes = 6 * 60 * 1000;
+        assert.equal(verifyChatSignature(body, String(timestamp), signature, secret, now + sixMinutes), false);
+        assert.equal(verifyChatSignature(body, String(timestamp), signature, secret, now - sixMinutes), false);
+        // Still within five minutes
+        assert.equal(verifyChatSignature(body, String(timestamp), signature, secret, now + 4 * 60 * 1000), true);
+    });
+
+    it('rejects missing headers', () => {
+        assert.equal(verifyChatSignature(body, null, signature, secret, now), false);
+        assert.equal(verifyChatSignature(body, String(timestamp), null, secret, now), false);
+        assert.equal(verifyChatSignature(body, 'not-a-number', signature, secret, now), false);
+    });
+
+    it('rejects a signature of the wrong length without throwing', () => {
+        assert.equal(verifyChatSignature(body, String(timestamp), signature.slice(0, -2), secret, now), false);
+        assert.equal(verifyChatSignature(body, String(timestamp), `${signature}00`, secret, now), false);
+        assert.equal(verifyChatSignature(body, String(timestamp), 'v0=', secret, now), false);
+    });
+});
@@ -0,0 +1,29 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+// Request signing for the chat command webhook, in Slack's "v0" scheme:
+//   X-Slack-Request-Timestamp: <unix seconds>
+//   X-Slack-Signature: v0=<hex HMAC-SHA256 of "v0:<timestamp>:<raw body>" keyed with CHAT_SIGNING_SECRET>
+// scripts/chat-command.ts signs sample payloads the same way, so the route can be tried without Slack.
+
+export const SIGNATURE_HEADER = 'x-slack-signature';
+export const TIMESTAMP_HEADER = 'x-slack-request-timestamp';
+
+// Older requests are rejected so a captured one can't be replayed later
+const MAX_AGE_SECONDS = 5 * 60;
+
+export function getSigningSecret(): string {
+    return process.env.CHAT_SIGNING_SECRET || '';
+}
+
+export function signChatRequest(body: string, secret: string, timestamp: number): string {
+    return `v0=${createHmac('sha256', secret).update(`v0:${timestamp}:${body}`).digest('hex')}`;
+}
+
+export function verifyChatSignature(body: string, timestamp: string | null, signature: string | null, secret: string, now = Date.now()): boolean {
+    const seconds = Number(timestamp);
+    if (!signature || !Number.isInteger(seconds) || Math.abs(now / 1000 - seconds) > MAX_AGE_SECONDS) return false;
+
+    const expected = Buffer.from(signChatRequest(body, secret, seconds));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { CreatorError } from './store';
+
+export function creatorErrorResponse(error: unknown): NextResponse {
+    if (error instanceof CreatorError) {
+        return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('[CREATORS] Critical Error:', error);
+    return NextResponse.json({
+        error: 'Internal Server Error',
+        details: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+}
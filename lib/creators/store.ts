@@ -0,0 +1,104 @@
+import { randomUUID } from 'node:crypto';
+import type { FeedbackItem } from '../feedback/types';
+import { createJsonFileStore, resolveDataPath } from '../storage/json-file';
+import type { Creator, CreatorStoreData, SendRecord, SentFeedback } from './types';
+
+const DEFAULT_CREATORS_PATH = '.data/creators.json';
+const MAX_NAME_LENGTH = 50;
+const MAX_CHANNEL_LENGTH = 200;
+
+export class CreatorError extends Error {
+    constructor(message: string, readonly status: number) {
+        super(message);
+        this.name = 'CreatorError';
+    }
+}
+
+const store = createJsonFileStore<CreatorStoreData>(
+    () => resolveDataPath(process.env.CREATORS_PATH || DEFAULT_CREATORS_PATH),
+    () => ({ creators: [], sent: [] }),
+);
+
+function findCreator(data: CreatorStoreData, id: string): Creator {
+    const creator = data.creators.find(candidate => candidate.id === id);
+    if (!creator) throw new CreatorError(`Creator ${id} not found`, 404);
+    return creator;
+}
+
+function cleanProfile(name: unknown, channel: unknown): Pick<Creator, 'name' | 'channel'> {
+    return {
+        name: typeof name === 'string' ? name.trim().slice(0, MAX_NAME_LENGTH) : '',
+        channel: typeof channel === 'string' ? channel.trim().slice(0, MAX_CHANNEL_LENGTH) : '',
+    };
+}
+
+export async function listCreators(): Promise<Creator[]> {
+    const { creators } = await store.read();
+    return [...creators].sort((a, b) => a.name.localeCompare(b.name, 'ko'));
+}
+
+export function createCreator(name: unknown, channel: unknown): Promise<Creator> {
+    return store.mutate(data => {
+        const profile = cleanProfile(name, channel);
+        if (!profile.name) throw new CreatorError('Creator name is required', 400);
+
+        const creator: Creator = { id: randomUUID(), ...profile, createdAt: new Date().toISOString() };
+        data.creators.push(creator);
+        return creator;
+    });
+}
+
+export function updateCreator(id: string, name: unknown, channel: unknown): Promise<Creator> {
+    return store.mutate(data => {
+        const creator = findCreator(data, id);
+        const profile = cleanProfile(name ?? creator.name, channel ?? creator.channel);
+        if (!profile.name) throw new CreatorError('Creator name is required', 400);
+
+        Object.assign(creator, profile);
+        return creator;
+    });
+}
+
+// Removes the creator together with their history.
+export function deleteCreator(id: string): Promise<void> {
+    return store.mutate(data => {
+        findCreator(data, id);
+        data.creators = data.creators.filter(creator => creator.id !== id);
+        data.sent = data.sent.filter(record => record.creatorId !== id);
+    });
+}
+
+// Newest first.
+export async function getHistory(creatorId: string): Promise<{ creator: Creator; sent: SentFeedback[] }> {
+    const data = await store.read();
+    return {
+        creator: findCreator(data, creatorId),
+        sent: data.sent.filter(record => record.creatorId === creatorId).reverse(),
+    };
+}
+
+// Records solutions sent to a creator. Unknown entry IDs are skipped.
+export function recordSent(creatorId: string, records: SendRecord[], items: FeedbackItem[]): Promise<SentFeedback[]> {
+    const byId = new Map(items.map(item => [item.id, item]));
+
+    return store.mutate(data => {
+        findCreator(data, creatorId);
+        const sentAt = new Date().toISOString();
+
+        const saved = records.flatMap(({ entryId, version, text }) => {
+            const item = byId.get(entryId);
+            if (!item) return [];
+            return [{ id: randomUUID(), creatorId, entryId, category: item.category, problem: item.problem, version, text, sentAt }];
+        });
+        data.sent.push(...saved);
+        return saved;
+    });
+}
+
+export function deleteSent(creatorId: string, recordId: string): Promise<void> {
+    return store.mutate(data => {
+        const before = data.sent.length;
+        data.sent = data.sent.filter(record => !(record.creatorId === creatorId && record.id === recordId));
+        if (data.sent.length === before) throw new CreatorError(`Record ${recordId} not found`, 404);
+    });
+}
@@ -0,0 +1,28 @@
+export type Creator = {
+    id: string;
+    name: string;
+    // Channel handle or URL, free text
+    channel: string;
+    createdAt: string;
+};
+
+// One solution a coach sent to a creator.
+export type SentFeedback = {
+    id: string;
+    creatorId: string;
+    entryId: string;
+    // Copied from the entry when sent, so the timeline still reads well if the entry changes later
+    category: string;
+    problem: string;
+    version: string;
+    text: string;
+    sentAt: string;
+};
+
+export type CreatorStoreData = {
+    creators: Creator[];
+    sent: SentFeedback[];
+};
+
+// Client-side shape of a send to record; category and problem are filled in by the server.
+export type SendRecord = Pick<SentFeedback, 'entryId' | 'version' | 'text'>;
@@ -0,0 +1,14 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { safeDecode } from './decode';
+
+describe('safeDecode', () => {
+    it('decodes percent-encoded text once', () => {
+        assert.equal(safeDecode('50%2525-off%20%EC%9E%90%EB%A7%89'), '50%25-off 자막');
+    });
+
+    it('returns null for a malformed escape', () => {
+        assert.equal(safeDecode('%E0%A4%A'), null);
+        assert.equal(safeDecode('100%'), null);
+    });
+});
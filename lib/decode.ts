@@ -0,0 +1,9 @@
+// decodeURIComponent for values a client controls (URL segments, cookies): a malformed escape such as
+// "%E0%A4%A" gives null instead of throwing, so callers can treat it as "not found" rather than a 500.
+export function safeDecode(value: string): string | null {
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,119 @@
+import { getFeedback } from '@/lib/feedback/cache';
+import type { FeedbackItem } from '@/lib/feedback/types';
+import { buildDiagnosisPrompt, MAX_MATCHES_PER_SEGMENT, parseDiagnosis } from '@/lib/llm/diagnosis';
+import { MATCH_SYSTEM_PROMPT, type AiMatch } from '@/lib/llm/matching';
+import { describeProvider, getLlmProvider } from '@/lib/llm/provider';
+import { search } from '@/lib/search/engine';
+import { highlightSegments } from '@/lib/search/highlight';
+import { getSearchIndex } from '@/lib/search/server';
+import { selectCandidates } from '@/lib/semantic/server';
+import { segmentDraft, type Segment } from './segment';
+
+export type DiagnosisMatch = FeedbackItem & Omit<AiMatch, 'ref'>;
+
+export type DiagnosisMode = 'ai' | 'local';
+
+export type TextDiagnosis = {
+    mode: DiagnosisMode;
+    // Set in "ai" mode
+    provider?: string;
+    source: string;
+    // One list per input text, in input order
+    matches: DiagnosisMatch[][];
+    // Set in "ai" mode when the texts didn't fit in one prompt: texts from this index on were matched locally
+    localFrom?: number;
+};
+
+export type DiagnosedSegment = Segment & {
+    matches: DiagnosisMatch[];
+};
+
+export type DraftDiagnosis = Omit<TextDiagnosis, 'matches'> & {
+    segments: DiagnosedSegment[];
+};
+
+// BM25 scores below this are too weak to attach to a single sentence.
+const LOCAL_MIN_SCORE = 4;
+// Scales BM25 scores onto the 0-100 range used by AI matches.
+const LOCAL_SCORE_SCALE = 10;
+// The most text sent to the model in one prompt, the same as the longest draft /api/diagnose accepts.
+const MAX_AI_TEXT_LENGTH = 5000;
+
+// How many leading texts fit in one prompt
+function countTextsForPrompt(texts: string[]): number {
+    let length = 0;
+    const count = texts.findIndex(text => (length += text.length) > MAX_AI_TEXT_LENGTH);
+    return count === -1 ? texts.length : count;
+}
+
+async function diagnoseLocally(texts: string[]): Promise<TextDiagnosis> {
+    const { feedback, index } = await getSearchIndex();
+
+    const matches = texts.map(text =>
+        search(index, text, { limit: MAX_MATCHES_PER_SEGMENT, minRelativeScore: 0.5 })
+            .filter(hit => hit.score >= LOCAL_MIN_SCORE)
+            .map(hit => {
+                const spans = highlightSegments(text, hit.terms).filter(segment => segment.match).map(segment => segment.text);
+                const quote = spans.reduce((longest, span) => (span.length > longest.length ? span : longest), '');
+                return {
+                    ...hit.item,
+                    score: Math.min(100, Math.round(hit.score * LOCAL_SCORE_SCALE)),
+                    quote,
+                    reason: `'${spans.join(', ')}' 표현이 이 문제와 겹칩니다.`,
+                };
+            })
+    );
+
+    return { mode: 'local', source: feedback.source, matches };
+}
+
+// Attaches encyclopedia problems to each text (sentence, subtitle cue, ...). Uses the configured
+// LLM when available and falls back to the local search index otherwise, or when the LLM fails.
+// Only the first MAX_AI_TEXT_LENGTH characters go to the LLM; texts past that are matched locally.
+export async function diagnoseTexts(texts: string[]): Promise<TextDiagnosis> {
+    const provider = getLlmProvider();
+    const promptCount = countTextsForPrompt(texts);
+    if (!provider || promptCount === 0) return diagnoseLocally(texts);
+
+    const providerName = describeProvider(provider);
+    try {
+        const promptTexts = texts.slice(0, promptCount);
+        const feedback = await getFeedback();
+        const data = feedback.items.map((item, ref) => ({ ref, category: item.category, problem: item.problem }));
+        const candidates = await selectCandidates(promptTexts.join('\n'), data, feedback.etag);
+
+        const responseText = await provider.generate({
+            system: MATCH_SYSTEM_PROMPT,
+            prompt: buildDiagnosisPrompt(promptTexts, candidates),
+            json: true,
+        });
+        const bySegment = parseDiagnosis(responseText, promptTexts, new Set(candidates.map(item => item.ref)));
+        const matches = promptTexts.map((_, i) => (bySegment.get(i) ?? []).map(({ ref, ...match }) => ({ ...feedback.items[ref], ...match })));
+
+        if (promptCount < texts.length) {
+            console.warn(`[DIAGNOSIS] ${texts.length - promptCount} of ${texts.length} texts are past the prompt budget, matching them locally`);
+            matches.push(...(await diagnoseLocally(texts.slice(promptCount))).matches);
+        }
+
+        return {
+            mode: 'ai',
+            provider: providerName,
+            source: feedback.source,
+            matches,
+            ...(promptCount < texts.length && { localFrom: promptCount }),
+        };
+    } catch (error) {
+        console.error(`[DIAGNOSIS] ${providerName} failed, falling back to local search:`, error);
+        return diagnoseLocally(texts);
+    }
+}
+
+export async function diagnoseDraft(draft: string): Promise<DraftDiagnosis> {
+    const segments = segmentDraft(draft);
+    const { matches, ...rest } = await diagnoseTexts(segments.map(segment => segment.text));
+
+    return {
+        ...rest,
+        segments: segments.map((segment, i) => ({ ...segment, matches: matches[i] })),
+    };
+}
@@ -0,0 +1,29 @@
+export type Segment = {
+    index: number;
+    text: string;
+    // Character offsets into the original draft, end exclusive
+    start: number;
+    end: number;
+};
+
+// A sentence runs up to terminal punctuation (plus closing quotes/brackets) or the end of the line.
+const SENTENCE = /[^.!?。…\n]+(?:[.!?。…]+["'”’)\]]*)?|[.!?。…]+/g;
+const HAS_CONTENT = /[\p{L}\p{N}]/u;
+
+// Splits a draft (script, caption) into sentence-sized segments, keeping their position
+// in the original text so annotations can be rendered inline.
+export function segmentDraft(draft: string): Segment[] {
+    const segments: Segment[] = [];
+
+    for (const match of draft.matchAll(SENTENCE)) {
+        const raw = match[0];
+        const leading = raw.length - raw.trimStart().length;
+        const text = raw.trim();
+        if (!HAS_CONTENT.test(text)) continue;
+
+        const start = (match.index ?? 0) + leading;
+        segments.push({ index: segments.length, text, start, end: start + text.length });
+    }
+
+    return segments;
+}
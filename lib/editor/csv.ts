@@ -0,0 +1,7 @@
+import { feedbackToCsv } from '../feedback/export';
+import type { EditorEntry } from './types';
+
+// Published entries in the sheet's column layout (see feedbackToCsv), IDs included.
+export function entriesToCsv(entries: EditorEntry[]): string {
+    return feedbackToCsv(entries.filter(entry => !entry.archived));
+}
@@ -0,0 +1,145 @@
+// Word-level diffs for the editor's history view. Client-safe: no server-only imports.
+import { SEVERITY_LABELS } from '../feedback/taxonomy';
+import type { EditorEntry, Revision } from './types';
+
+export type DiffPart = {
+    type: 'equal' | 'added' | 'removed';
+    text: string;
+};
+
+export type FieldDiff = {
+    // Display name, e.g. "문제점" or "솔루션 (버전1)"
+    field: string;
+    parts: DiffPart[];
+};
+
+export type EntryDiff = {
+    id: string;
+    problem: string;
+    status: 'added' | 'removed' | 'changed';
+    fields: FieldDiff[];
+    // Set when the entry changed position: [before, after]
+    moved?: [number, number];
+};
+
+// Past this many token pairs the LCS table gets too big; fall back to "all removed, all added".
+const MAX_DIFF_CELLS = 1_000_000;
+
+function tokens(text: string): string[] {
+    return text.match(/\s+|[^\s]+/g) ?? [];
+}
+
+function push(parts: DiffPart[], type: DiffPart['type'], text: string): void {
+    const last = parts.at(-1);
+    if (last?.type === type) last.text += text;
+    else parts.push({ type, text });
+}
+
+// Longest-common-subsequence diff over whitespace-separated tokens.
+export function diffText(before: string, after: string): DiffPart[] {
+    const a = tokens(before);
+    const b = tokens(after);
+
+    if (a.length * b.length > MAX_DIFF_CELLS) {
+        return [
+            ...(before ? [{ type: 'removed' as const, text: before }] : []),
+            ...(after ? [{ type: 'added' as const, text: after }] : []),
+        ];
+    }
+
+    // lcs[i][j] = LCS length of a[i:] and b[j:]
+    const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const parts: DiffPart[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            push(parts, 'equal', a[i]);
+            i++;
+            j++;
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            push(parts, 'removed', a[i++]);
+        } else {
+            push(parts, 'added', b[j++]);
+        }
+    }
+    while (i < a.length) push(parts, 'removed', a[i++]);
+    while (j < b.length) push(parts, 'added', b[j++]);
+    return parts;
+}
+
+// Field name -> text, in display order. Solutions get one field per variant label.
+function fieldTexts(entry: EditorEntry | undefined): Map<string, string> {
+    const fields = new Map<string, string>();
+    if (!entry) return fields;
+    fields.set('대분류', entry.category);
+    fields.set('중분류', entry.subcategory ?? '');
+    fields.set('문제점', entry.problem);
+    for (const variant of entry.solutions) fields.set(`솔루션 (${variant.label})`, variant.text);
+    fields.set('태그', (entry.tags ?? []).join(', '));
+    fields.set('심각도', entry.severity ? SEVERITY_LABELS[entry.severity] : '');
+    fields.set('관련', (entry.related ?? []).join(', '));
+    fields.set('상태', entry.archived ? '보관됨' : '게시 중');
+    return fields;
+}
+
+function diffEntry(before: EditorEntry | undefined, after: EditorEntry | undefined): FieldDiff[] {
+    const beforeFields = fieldTexts(before);
+    const afterFields = fieldTexts(after);
+    const names = [...new Set([...beforeFields.keys(), ...afterFields.keys()])];
+    return names
+        .map(field => ({ field, before: beforeFields.get(field) ?? '', after: afterFields.get(field) ?? '' }))
+        .filter(({ before, after }) => before !== after)
+        .map(({ field, before, after }) => ({ field, parts: diffText(before, after) }));
+}
+
+// Per-entry changes between two versions of the list, in the order of the newer one.
+export function diffEntries(before: EditorEntry[], after: EditorEntry[]): EntryDiff[] {
+    const beforeIndex = new Map(before.map((entry, index) => [entry.id, index]));
+    const afterIds = new Set(after.map(entry => entry.id));
+    const diffs: EntryDiff[] = [];
+
+    after.forEach(entry => {
+        const previousIndex = beforeIndex.get(entry.id);
+        const previous = previousIndex === undefined ? undefined : before[previousIndex];
+        const fields = diffEntry(previous, entry);
+        if (!previous) {
+            diffs.push({ id: entry.id, problem: entry.problem, status: 'added', fields });
+        } else if (fields.length > 0) {
+            diffs.push({ id: entry.id, problem: entry.problem, status: 'changed', fields });
+        }
+    });
+
+    before
+        .filter(entry => !afterIds.has(entry.id))
+        .forEach(entry => diffs.push({ id: entry.id, problem: entry.problem, status: 'removed', fields: diffEntry(entry, undefined) }));
+
+    return diffs;
+}
+
+export function diffRevision(revision: Revision): EntryDiff[] {
+    if (revision.entriesBefore || revision.entriesAfter) {
+        return diffEntries(revision.entriesBefore ?? [], revision.entriesAfter ?? []);
+    }
+
+    const { before, after } = revision;
+    const entry = after?.entry ?? before?.entry;
+    if (!entry) return [];
+
+    const diff: EntryDiff = {
+        id: entry.id,
+        problem: entry.problem,
+        status: !before ? 'added' : !after ? 'removed' : 'changed',
+        fields: diffEntry(before?.entry, after?.entry),
+    };
+    if (before && after && before.index !== after.index) {
+        diff.moved = [before.index, after.index];
+    }
+    return [diff];
+}
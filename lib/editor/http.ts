@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { refreshFeedback } from '../feedback/cache';
+import { getConfiguredSources } from '../feedback/repository';
+import { EditorError } from './store';
+
+// EDITOR_TOKENS is a comma separated list of "name:token" pairs. The name is recorded as the
+// author of every change made with that token.
+function getEditorTokens(): Map<string, string> {
+    const tokens = new Map<string, string>();
+    for (const pair of (process.env.EDITOR_TOKENS || '').split(',')) {
+        const separator = pair.lastIndexOf(':');
+        const name = pair.slice(0, separator).trim();
+        const token = pair.slice(separator + 1).trim();
+        if (separator > 0 && token) tokens.set(token, name);
+    }
+    return tokens;
+}
+
+// Returns the editor's name, or the response to send back when the request isn't authorized.
+export function authenticateEditor(request: Request): string | NextResponse {
+    const tokens = getEditorTokens();
+    if (tokens.size === 0) {
+        return NextResponse.json({ error: 'Editor is not configured' }, { status: 503 });
+    }
+
+    const header = request.headers.get('authorization') || '';
+    const name = header.startsWith('Bearer ') ? tokens.get(header.slice('Bearer '.length)) : undefined;
+    if (!name) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    return name;
+}
+
+// Reloads the published list when it is served from the editor store, so edits show up right away.
+export function publishEditorChanges(): void {
+    if (!getConfiguredSources().some(source => source.kind === 'editor')) return;
+
+    refreshFeedback()
+        .then(feedback => console.log(`[EDITOR] Published ${feedback.items.length} items from ${feedback.source}`))
+        .catch(error => console.error('[EDITOR] Failed to refresh feedback after change:', error));
+}
+
+export function editorErrorResponse(error: unknown): NextResponse {
+    if (error instanceof EditorError) {
+        return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('[EDITOR] Critical Error:', error);
+    return NextResponse.json({
+        error: 'Internal Server Error',
+        details: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+}
@@ -0,0 +1,241 @@
+import { contentId, uniqueId } from '../feedback/ids';
+import type { FeedbackItem, SolutionVariant } from '../feedback/types';
+import { parseSeverity, parseTags } from '../feedback/taxonomy';
+import { DEFAULT_VARIANT_LABEL } from '../feedback/variants';
+import { createJsonFileStore, readJsonFile, resolveDataPath } from '../storage/json-file';
+import type { EditorEntry, EditorFields, EditorStoreData, EntrySnapshot, Revision, RevisionAction } from './types';
+
+const DEFAULT_STORE_PATH = 'data/editor-store.json';
+
+const emptyStore = (): EditorStoreData => ({ entries: [], revisions: [] });
+
+export class EditorError extends Error {
+    constructor(message: string, readonly status: number) {
+        super(message);
+        this.name = 'EditorError';
+    }
+}
+
+export function getEditorStorePath(): string {
+    return resolveDataPath(process.env.EDITOR_STORE_PATH || DEFAULT_STORE_PATH);
+}
+
+// Entries saved before solution variants existed had two fixed solution fields.
+type LegacyEntry = EditorEntry & { solution1?: string; solution2?: string };
+
+function upgradeEntry({ solution1, solution2, ...entry }: LegacyEntry): EditorEntry {
+    if (entry.solutions) return entry;
+    return {
+        ...entry,
+        solutions: [
+            { label: '버전1', text: solution1 ?? '' },
+            { label: '버전2', text: solution2 ?? '' },
+        ].filter(variant => variant.text),
+    };
+}
+
+function upgradeSnapshot(snapshot: EntrySnapshot | null): EntrySnapshot | null {
+    return snapshot && { ...snapshot, entry: upgradeEntry(snapshot.entry) };
+}
+
+function upgradeStore(data: EditorStoreData): EditorStoreData {
+    return {
+        entries: data.entries.map(upgradeEntry),
+        revisions: data.revisions.map(revision => ({
+            ...revision,
+            before: upgradeSnapshot(revision.before),
+            after: upgradeSnapshot(revision.after),
+            ...(revision.entriesBefore && { entriesBefore: revision.entriesBefore.map(upgradeEntry) }),
+            ...(revision.entriesAfter && { entriesAfter: revision.entriesAfter.map(upgradeEntry) }),
+        })),
+    };
+}
+
+const store = createJsonFileStore(getEditorStorePath, emptyStore, upgradeStore);
+const mutate = store.mutate;
+
+export async function readEditorStore(filePath?: string): Promise<EditorStoreData> {
+    return filePath ? upgradeStore(await readJsonFile(filePath, emptyStore())) : store.read();
+}
+
+function snapshot(entries: EditorEntry[], id: string): EntrySnapshot | null {
+    const index = entries.findIndex(entry => entry.id === id);
+    return index === -1 ? null : { entry: { ...entries[index] }, index };
+}
+
+function findIndex(data: EditorStoreData, id: string): number {
+    const index = data.entries.findIndex(entry => entry.id === id);
+    if (index === -1) throw new EditorError(`Entry ${id} not found`, 404);
+    return index;
+}
+
+function record(data: EditorStoreData, revision: Omit<Revision, 'id' | 'timestamp'>): Revision {
+    const saved: Revision = {
+        id: (data.revisions.at(-1)?.id ?? 0) + 1,
+        timestamp: new Date().toISOString(),
+        ...revision,
+    };
+    data.revisions.push(saved);
+    return saved;
+}
+
+// Applies a change to one entry and records it with before/after snapshots.
+function changeEntry(data: EditorStoreData, id: string, action: RevisionAction, author: string, apply: () => void, rolledBack?: number): Revision {
+    const before = snapshot(data.entries, id);
+    apply();
+    return record(data, { action, author, entryId: id, before, after: snapshot(data.entries, id), rolledBack });
+}
+
+function text(value: unknown): string {
+    return typeof value === 'string' ? value.trim() : '';
+}
+
+// Empty variants are dropped; labels must be unique within an entry.
+function cleanSolutions(value: unknown[]): SolutionVariant[] {
+    const labels = new Set<string>();
+    return value.flatMap(raw => {
+        const variant = (raw ?? {}) as Record<string, unknown>;
+        const label = text(variant.label) || DEFAULT_VARIANT_LABEL;
+        const body = text(variant.text);
+        if (!body) return [];
+        if (labels.has(label)) throw new EditorError(`Duplicate solution label "${label}"`, 400);
+        labels.add(label);
+
+        const tone = text(variant.tone);
+        const length = text(variant.length);
+        return [{ label, text: body, ...(tone && { tone }), ...(length && { length }) }];
+    });
+}
+
+// Optional fields that are sent empty are cleared (set to undefined); fields that aren't sent are left alone.
+function cleanFields(fields: Partial<EditorFields>): Partial<EditorFields> {
+    const cleaned: Partial<EditorFields> = {};
+    if (typeof fields.category === 'string') cleaned.category = fields.category.trim();
+    if (typeof fields.problem === 'string') cleaned.problem = fields.problem.trim();
+    if (Array.isArray(fields.solutions)) cleaned.solutions = cleanSolutions(fields.solutions);
+    if ('subcategory' in fields) cleaned.subcategory = text(fields.subcategory) || undefined;
+    if ('tags' in fields) {
+        const tags = Array.isArray(fields.tags) ? fields.tags.map(text).filter(Boolean) : parseTags(text(fields.tags));
+        cleaned.tags = tags.length > 0 ? [...new Set(tags)] : undefined;
+    }
+    if ('related' in fields) {
+        const related = Array.isArray(fields.related) ? fields.related.map(text) : text(fields.related).split(/[,\s]+/);
+        const ids = [...new Set(related.filter(Boolean))];
+        cleaned.related = ids.length > 0 ? ids : undefined;
+    }
+    if ('severity' in fields) {
+        const severity = text(fields.severity);
+        cleaned.severity = parseSeverity(severity);
+        if (severity && !cleaned.severity) throw new EditorError(`Unknown severity "${severity}"`, 400);
+    }
+    return cleaned;
+}
+
+function validate(entry: EditorEntry, entries: EditorEntry[]): void {
+    if (!entry.problem) throw new EditorError('Problem is required', 400);
+    if (entry.solutions.length === 0) throw new EditorError('At least one solution is required', 400);
+
+    const unknown = (entry.related ?? []).filter(id => id === entry.id || !entries.some(other => other.id === id));
+    if (unknown.length > 0) throw new EditorError(`Unknown related entry ID(s): ${unknown.join(', ')}`, 400);
+}
+
+function moveTo(entries: EditorEntry[], from: number, to: number): void {
+    const [moved] = entries.splice(from, 1);
+    entries.splice(Math.max(0, Math.min(to, entries.length)), 0, moved);
+}
+
+export function createEntry(fields: EditorFields, author: string): Promise<Revision> {
+    return mutate(data => {
+        const cleaned = cleanFields(fields);
+        const category = cleaned.category || '기타';
+        const problem = cleaned.problem ?? '';
+        const entry: EditorEntry = {
+            id: uniqueId(contentId(category, problem), new Set(data.entries.map(e => e.id))),
+            ...cleaned,
+            category,
+            problem,
+            solutions: cleaned.solutions ?? [],
+            archived: false,
+        };
+        validate(entry, data.entries);
+        return changeEntry(data, entry.id, 'create', author, () => data.entries.push(entry));
+    });
+}
+
+export function updateEntry(id: string, fields: Partial<EditorFields>, author: string): Promise<Revision> {
+    return mutate(data => {
+        const index = findIndex(data, id);
+        const updated = { ...data.entries[index], ...cleanFields(fields) };
+        validate(updated, data.entries);
+        return changeEntry(data, id, 'update', author, () => { data.entries[index] = updated; });
+    });
+}
+
+export function setArchived(id: string, archived: boolean, author: string): Promise<Revision> {
+    return mutate(data => {
+        const index = findIndex(data, id);
+        return changeEntry(data, id, archived ? 'archive' : 'restore', author, () => {
+            data.entries[index] = { ...data.entries[index], archived };
+        });
+    });
+}
+
+export function moveEntry(id: string, to: number, author: string): Promise<Revision> {
+    return mutate(data => {
+        const from = findIndex(data, id);
+        return changeEntry(data, id, 'move', author, () => moveTo(data.entries, from, to));
+    });
+}
+
+// Makes the imported list the current content: entries are matched by ID and take the import's order;
+// entries missing from the import are archived rather than deleted, so nothing is lost.
+export function importEntries(items: FeedbackItem[], author: string): Promise<Revision> {
+    return mutate(data => {
+        const imported = new Set(items.map(item => item.id));
+        const entriesBefore = data.entries;
+        const entriesAfter: EditorEntry[] = [
+            ...items.map(item => ({ ...item, archived: false })),
+            ...entriesBefore
+                .filter(entry => !imported.has(entry.id))
+                .map(entry => ({ ...entry, archived: true })),
+        ];
+
+        data.entries = entriesAfter;
+        return record(data, { action: 'import', author, entryId: null, before: null, after: null, entriesBefore, entriesAfter });
+    });
+}
+
+// Puts things back the way they were before the given revision. The rollback is itself a revision.
+export function rollbackRevision(revisionId: number, author: string): Promise<Revision> {
+    return mutate(data => {
+        const target = data.revisions.find(revision => revision.id === revisionId);
+        if (!target) throw new EditorError(`Revision ${revisionId} not found`, 404);
+
+        if (target.entriesBefore) {
+            const entriesBefore = data.entries;
+            data.entries = target.entriesBefore.map(entry => ({ ...entry }));
+            return record(data, {
+                action: 'rollback', author, entryId: null, before: null, after: null,
+                entriesBefore, entriesAfter: data.entries, rolledBack: target.id,
+            });
+        }
+
+        const id = target.entryId as string;
+        const restored = target.before;
+        return changeEntry(data, id, 'rollback', author, () => {
+            const index = data.entries.findIndex(entry => entry.id === id);
+            if (index !== -1) data.entries.splice(index, 1);
+            if (restored) {
+                data.entries.splice(Math.min(restored.index, data.entries.length), 0, { ...restored.entry });
+            }
+        }, target.id);
+    });
+}
+
+export async function listRevisions(entryId?: string, limit = 50): Promise<Revision[]> {
+    const { revisions } = await readEditorStore();
+    return revisions
+        .filter(revision => !entryId || revision.entryId === entryId || revision.entriesAfter?.some(e => e.id === entryId))
+        .reverse()
+        .slice(0, limit);
+}
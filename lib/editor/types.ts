@@ -0,0 +1,39 @@
+import type { FeedbackItem } from '../feedback/types';
+
+// An entry as the in-app editor stores it. The list order is the display order.
+export type EditorEntry = FeedbackItem & {
+    // Archived entries stay in the store (and its history) but are not published
+    archived: boolean;
+};
+
+export type EditorFields = Pick<EditorEntry, 'category' | 'subcategory' | 'problem' | 'solutions' | 'tags' | 'severity' | 'related'>;
+
+export type RevisionAction = 'create' | 'update' | 'move' | 'archive' | 'restore' | 'import' | 'rollback';
+
+// One entry and its position in the list at a point in time.
+export type EntrySnapshot = {
+    entry: EditorEntry;
+    index: number;
+};
+
+export type Revision = {
+    id: number;
+    action: RevisionAction;
+    author: string;
+    timestamp: string;
+    // The entry that changed; null for changes to the whole list (imports)
+    entryId: string | null;
+    // null before a create, or after the rollback of one
+    before: EntrySnapshot | null;
+    after: EntrySnapshot | null;
+    // Whole-list changes keep the full list on both sides instead
+    entriesBefore?: EditorEntry[];
+    entriesAfter?: EditorEntry[];
+    // For rollbacks: the revision that was undone
+    rolledBack?: number;
+};
+
+export type EditorStoreData = {
+    entries: EditorEntry[];
+    revisions: Revision[];
+};
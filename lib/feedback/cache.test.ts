@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { getFeedback, refreshFeedback } from './cache';
+
+// The cache is module state, so these tests run in order against one JSON source file.
+describe('getFeedback', () => {
+    let dir = '';
+    let file = '';
+    const writeEntries = (...problems: string[]) =>
+        writeFile(file, JSON.stringify(problems.map(problem => ({ category: '텍스트', problem, solution: '해결' }))));
+    const setCache = (ttlSeconds: number, maxStaleSeconds: number) => {
+        process.env.FEEDBACK_CACHE_TTL_SECONDS = String(ttlSeconds);
+        process.env.FEEDBACK_CACHE_MAX_STALE_SECONDS = String(maxStaleSeconds);
+    };
+    const problems = async () => (await getFeedback()).items.map(item => item.problem);
+
+    before(async () => {
+        dir = await mkdtemp(path.join(tmpdir(), 'feedback-cache-'));
+        file = path.join(dir, 'feedback.json');
+        process.env.FEEDBACK_SOURCES = `json:${file}`;
+    });
+    after(async () => {
+        delete process.env.FEEDBACK_SOURCES;
+        delete process.env.FEEDBACK_CACHE_TTL_SECONDS;
+        delete process.env.FEEDBACK_CACHE_MAX_STALE_SECONDS;
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('serves the cached list while it is fresh', async () => {
+        setCache(60, 0);
+        await writeEntries('첫 번째');
+        const first = await getFeedback();
+        assert.equal(first.source, `json:${file}`);
+
+        await writeEntries('바뀐 내용');
+        assert.equal(await getFeedback(), first);
+    });
+
+    it('serves a stale list right away and revalidates it in the background', async () => {
+        setCache(0, 3600);
+        const stale = await getFeedback();
+        assert.deepEqual(stale.items.map(item => item.problem), ['첫 번째']);
+
+        // The background reload replaces the cached list once it has read the file
+        setCache(60, 0);
+        for (let i = 0; i < 100 && (await problems())[0] !== '바뀐 내용'; i++) {
+            await new Promise(resolve => setTimeout(resolve, 20));
+        }
+        assert.deepEqual(await problems(), ['바뀐 내용']);
+    });
+
+    it('reloads before answering once the list is too stale', async () => {
+        setCache(0, 0);
+        await writeEntries('세 번째');
+        assert.deepEqual(await problems(), ['세 번째']);
+    });
+
+    it('keeps the ETag, Last-Modified and items when a reload finds no change', async () => {
+        setCache(60, 0);
+        const before = await getFeedback();
+        const after = await refreshFeedback();
+        assert.notEqual(after, before);
+        assert.equal(after.etag, before.etag);
+        assert.equal(after.lastModified, before.lastModified);
+        assert.equal(after.items, before.items);
+    });
+
+    it('changes the ETag when the content changes', async () => {
+        const before = await getFeedback();
+        await writeEntries('네 번째');
+        const after = await refreshFeedback();
+        assert.notEqual(after.etag, before.etag);
+        assert.deepEqual(after.items.map(item => item.problem), ['네 번째']);
+    });
+});
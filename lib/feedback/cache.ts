@@ -0,0 +1,85 @@
+import { createHash } from 'node:crypto';
+import { loadFeedback } from './repository';
+import type { FeedbackLoadResult } from './types';
+
+export type CachedFeedback = FeedbackLoadResult & {
+    etag: string;
+    // When the content last changed, not when it was last fetched.
+    lastModified: Date;
+    fetchedAt: number;
+};
+
+const DEFAULT_TTL_SECONDS = 60;
+const DEFAULT_MAX_STALE_SECONDS = 60 * 60;
+
+function secondsFromEnv(name: string, fallback: number): number {
+    const value = Number(process.env[name]);
+    return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+// Entries younger than the TTL are served as-is. Older ones are still served
+// (stale-while-revalidate) while a background reload runs, up to the max stale age.
+function getCacheConfig() {
+    return {
+        ttlMs: secondsFromEnv('FEEDBACK_CACHE_TTL_SECONDS', DEFAULT_TTL_SECONDS) * 1000,
+        maxStaleMs: secondsFromEnv('FEEDBACK_CACHE_MAX_STALE_SECONDS', DEFAULT_MAX_STALE_SECONDS) * 1000,
+    };
+}
+
+let cached: CachedFeedback | null = null;
+let inflight: Promise<CachedFeedback> | null = null;
+
+function computeEtag(result: FeedbackLoadResult): string {
+    const hash = createHash('sha1').update(JSON.stringify(result.items)).digest('base64url');
+    return `"${hash}"`;
+}
+
+function reload(): Promise<CachedFeedback> {
+    // Concurrent callers share one fetch so a burst of requests only hits the source once.
+    if (inflight) return inflight;
+
+    inflight = loadFeedback()
+        .then(result => {
+            const etag = computeEtag(result);
+            const unchanged = cached?.etag === etag;
+            cached = {
+                ...result,
+                // Keeping the same objects lets indexes built from them (see lib/search/server.ts) stay in step
+                items: unchanged && cached ? cached.items : result.items,
+                etag,
+                // HTTP dates only have second precision
+                lastModified: unchanged && cached ? cached.lastModified : new Date(Math.floor(Date.now() / 1000) * 1000),
+                fetchedAt: Date.now(),
+            };
+            return cached;
+        })
+        .finally(() => {
+            inflight = null;
+        });
+
+    return inflight;
+}
+
+export async function getFeedback(): Promise<CachedFeedback> {
+    const { ttlMs, maxStaleMs } = getCacheConfig();
+
+    if (!cached) return reload();
+
+    const age = Date.now() - cached.fetchedAt;
+    if (age < ttlMs) return cached;
+
+    if (age < ttlMs + maxStaleMs) {
+        reload().catch(error => {
+            console.error('[FEEDBACK-CACHE] Background revalidation failed:', error);
+        });
+        return cached;
+    }
+
+    return reload();
+}
+
+// Drops the cached entry and loads it again, e.g. right after an editor changes the sheet.
+export async function refreshFeedback(): Promise<CachedFeedback> {
+    if (inflight) await inflight.catch(() => undefined);
+    return reload();
+}
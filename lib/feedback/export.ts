@@ -0,0 +1,173 @@
+import Papa from 'papaparse';
+import { SEVERITY_LABELS } from './taxonomy';
+import type { FeedbackItem } from './types';
+import { variantColumns, variantHeader } from './variants';
+
+// Offline copies of the encyclopedia: CSV in the sheet's layout, and a Markdown or printable HTML
+// handbook grouped by category (for onboarding new coaches).
+
+export type ExportFormat = 'csv' | 'md' | 'html';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'md', 'html'];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+    csv: 'text/csv; charset=utf-8',
+    md: 'text/markdown; charset=utf-8',
+    html: 'text/html; charset=utf-8',
+};
+
+export const HANDBOOK_TITLE = '크리투스 피드백 백과사전';
+
+// Same column layout as the Google Sheet, plus the ID column so a round trip keeps entry IDs stable.
+// There is one solution column per variant label in use, e.g. "솔루션 (버전1)", "솔루션 (직설) [tone=blunt]".
+export function feedbackToCsv(items: FeedbackItem[]): string {
+    const variants = variantColumns(items);
+
+    return Papa.unparse({
+        fields: ['ID', '대분류', '중분류', '문제점', ...variants.map(variantHeader), '태그', '심각도', '관련'],
+        data: items.map(item => [
+            item.id,
+            item.category,
+            item.subcategory ?? '',
+            item.problem,
+            ...variants.map(({ label }) => item.solutions.find(variant => variant.label === label)?.text ?? ''),
+            (item.tags ?? []).join(', '),
+            item.severity ? SEVERITY_LABELS[item.severity] : '',
+            (item.related ?? []).join(', '),
+        ]),
+    });
+}
+
+// Categories in sheet order, each with its entries in sheet order.
+export function groupByCategory(items: FeedbackItem[]): Map<string, FeedbackItem[]> {
+    const groups = new Map<string, FeedbackItem[]>();
+    for (const item of items) {
+        const group = groups.get(item.category);
+        if (group) group.push(item);
+        else groups.set(item.category, [item]);
+    }
+    return groups;
+}
+
+// "중분류 · 심각도 높음 · #태그", or '' when the entry has none of them
+function metaLine(item: FeedbackItem): string {
+    return [
+        item.subcategory,
+        item.severity && `심각도 ${SEVERITY_LABELS[item.severity]}`,
+        ...(item.tags ?? []).map(tag => `#${tag}`),
+    ].filter(Boolean).join(' · ');
+}
+
+function formatDate(date: Date): string {
+    return date.toLocaleDateString('ko-KR', { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'Asia/Seoul' });
+}
+
+export function feedbackToMarkdown(items: FeedbackItem[], generatedAt = new Date()): string {
+    const groups = groupByCategory(items);
+    const lines = [`# ${HANDBOOK_TITLE}`, '', `${formatDate(generatedAt)} 기준, ${items.length}개 항목`, ''];
+
+    for (const [category, entries] of groups) {
+        lines.push(`- ${category} (${entries.length})`);
+    }
+    lines.push('');
+
+    for (const [category, entries] of groups) {
+        lines.push(`## ${category}`, '');
+        for (const item of entries) {
+            lines.push(`### ${item.problem}`, '');
+            const meta = metaLine(item);
+            if (meta) lines.push(`_${meta}_`, '');
+            for (const variant of item.solutions) {
+                // Labels only matter when there is more than one phrasing
+                if (item.solutions.length > 1) lines.push(`**${variant.label}**`, '');
+                lines.push(variant.text, '');
+            }
+        }
+    }
+
+    return lines.join('\n');
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+const HANDBOOK_STYLE = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Apple SD Gothic Neo", "Noto Sans KR", sans-serif; color: #111827; max-width: 760px; margin: 40px auto; padding: 0 24px; line-height: 1.6; }
+h1 { font-size: 28px; margin-bottom: 4px; }
+.generated { color: #6b7280; font-size: 14px; }
+nav ol { padding-left: 20px; }
+nav a { color: #2563eb; text-decoration: none; }
+section.category { break-before: page; }
+h2 { font-size: 22px; border-bottom: 2px solid #111827; padding-bottom: 6px; margin-top: 40px; }
+article { break-inside: avoid; border-bottom: 1px solid #e5e7eb; padding: 16px 0; }
+h3 { font-size: 17px; margin: 0 0 4px; }
+.meta { color: #6b7280; font-size: 13px; margin: 0 0 8px; }
+.label { display: inline-block; font-size: 12px; font-weight: bold; color: #2563eb; margin-top: 6px; }
+.solution { white-space: pre-wrap; margin: 2px 0 0; }
+.print { position: fixed; top: 16px; right: 16px; padding: 8px 14px; border: 0; border-radius: 8px; background: #2563eb; color: #fff; font-weight: bold; cursor: pointer; }
+@media print { .print { display: none; } body { margin: 0; } nav { break-after: page; } }
+`;
+
+// A self-contained page (no scripts besides the print button, no external assets) that prints one category per page.
+export function feedbackToHtml(items: FeedbackItem[], generatedAt = new Date()): string {
+    const groups = [...groupByCategory(items)];
+    const anchor = (index: number) => `category-${index + 1}`;
+
+    const toc = groups
+        .map(([category, entries], i) => `<li><a href="#${anchor(i)}">${escapeHtml(category)}</a> (${entries.length})</li>`)
+        .join('\n');
+
+    const sections = groups.map(([category, entries], i) => {
+        const articles = entries.map(item => {
+            const meta = metaLine(item);
+            const solutions = item.solutions.map(variant => [
+                item.solutions.length > 1 ? `<span class="label">${escapeHtml(variant.label)}</span>` : '',
+                `<p class="solution">${escapeHtml(variant.text)}</p>`,
+            ].join('')).join('\n');
+            return [
+                `<article id="${escapeHtml(item.id)}">`,
+                `<h3>${escapeHtml(item.problem)}</h3>`,
+                meta ? `<p class="meta">${escapeHtml(meta)}</p>` : '',
+                solutions,
+                '</article>',
+            ].filter(Boolean).join('\n');
+        }).join('\n');
+        return `<section class="category" id="${anchor(i)}">\n<h2>${escapeHtml(category)}</h2>\n${articles}\n</section>`;
+    }).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="ko">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${HANDBOOK_TITLE}</title>
+<style>${HANDBOOK_STYLE}</style>
+</head>
+<body>
+<button class="print" onclick="window.print()">인쇄 / PDF 저장</button>
+<h1>${HANDBOOK_TITLE}</h1>
+<p class="generated">${escapeHtml(formatDate(generatedAt))} 기준, ${items.length}개 항목</p>
+<nav><ol>
+${toc}
+</ol></nav>
+${sections}
+</body>
+</html>
+`;
+}
+
+export function exportFeedback(items: FeedbackItem[], format: ExportFormat): string {
+    switch (format) {
+        case 'csv':
+            return feedbackToCsv(items);
+        case 'md':
+            return feedbackToMarkdown(items);
+        case 'html':
+            return feedbackToHtml(items);
+    }
+}
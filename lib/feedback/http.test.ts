@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { CachedFeedback } from './cache';
+import { feedbackHeaders, isNotModified } from './http';
+
+const feedback: CachedFeedback = {
+    items: [],
+    source: 'json:data/mock_data.json',
+    fallback: false,
+    etag: '"abc123"',
+    lastModified: new Date('2026-01-02T03:04:05Z'),
+    fetchedAt: 0,
+};
+
+const requestWith = (headers: Record<string, string>) => new Request('http://localhost/api/feedback', { headers });
+
+describe('isNotModified', () => {
+    it('matches the current ETag', () => {
+        assert.equal(isNotModified(requestWith({ 'If-None-Match': '"abc123"' }), feedback), true);
+        assert.equal(isNotModified(requestWith({ 'If-None-Match': '"other"' }), feedback), false);
+    });
+
+    it('compares weak ETags by their value', () => {
+        assert.equal(isNotModified(requestWith({ 'If-None-Match': 'W/"abc123"' }), feedback), true);
+    });
+
+    it('matches any ETag in a list', () => {
+        assert.equal(isNotModified(requestWith({ 'If-None-Match': '"old", W/"abc123" ,"older"' }), feedback), true);
+        assert.equal(isNotModified(requestWith({ 'If-None-Match': '"old", "older"' }), feedback), false);
+    });
+
+    it('treats * as a match', () => {
+        assert.equal(isNotModified(requestWith({ 'If-None-Match': '*' }), feedback), true);
+    });
+
+    it('falls back to If-Modified-Since', () => {
+        assert.equal(isNotModified(requestWith({ 'If-Modified-Since': 'Fri, 02 Jan 2026 03:04:05 GMT' }), feedback), true);
+        assert.equal(isNotModified(requestWith({ 'If-Modified-Since': 'Sat, 03 Jan 2026 00:00:00 GMT' }), feedback), true);
+        assert.equal(isNotModified(requestWith({ 'If-Modified-Since': 'Thu, 01 Jan 2026 00:00:00 GMT' }), feedback), false);
+        assert.equal(isNotModified(requestWith({ 'If-Modified-Since': 'not a date' }), feedback), false);
+    });
+
+    it('lets If-None-Match take precedence over If-Modified-Since', () => {
+        const request = requestWith({ 'If-None-Match': '"other"', 'If-Modified-Since': 'Sat, 03 Jan 2026 00:00:00 GMT' });
+        assert.equal(isNotModified(request, feedback), false);
+    });
+
+    it('is false without validators', () => {
+        assert.equal(isNotModified(requestWith({}), feedback), false);
+    });
+});
+
+describe('feedbackHeaders', () => {
+    it('sends the validators and the source', () => {
+        assert.deepEqual(feedbackHeaders(feedback), {
+            'ETag': '"abc123"',
+            'Last-Modified': 'Fri, 02 Jan 2026 03:04:05 GMT',
+            'Cache-Control': 'no-cache',
+            'X-Feedback-Source': 'json:data/mock_data.json',
+            'X-Feedback-Fallback': 'false',
+        });
+    });
+});
@@ -0,0 +1,31 @@
+import type { CachedFeedback } from './cache';
+
+// Validators and provenance headers shared by every response built from the cached feedback list.
+export function feedbackHeaders(feedback: CachedFeedback): Record<string, string> {
+    return {
+        'ETag': feedback.etag,
+        'Last-Modified': feedback.lastModified.toUTCString(),
+        'Cache-Control': 'no-cache',
+        'X-Feedback-Source': feedback.source,
+        'X-Feedback-Fallback': String(feedback.fallback),
+    };
+}
+
+// If-None-Match takes precedence over If-Modified-Since, as in RFC 9110.
+export function isNotModified(request: Request, feedback: CachedFeedback): boolean {
+    const ifNoneMatch = request.headers.get('if-none-match');
+    if (ifNoneMatch) {
+        return ifNoneMatch
+            .split(',')
+            .map(tag => tag.trim().replace(/^W\//, ''))
+            .some(tag => tag === '*' || tag === feedback.etag);
+    }
+
+    const ifModifiedSince = request.headers.get('if-modified-since');
+    if (ifModifiedSince) {
+        const since = Date.parse(ifModifiedSince);
+        return !Number.isNaN(since) && feedback.lastModified.getTime() <= since;
+    }
+
+    return false;
+}
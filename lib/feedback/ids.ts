@@ -0,0 +1,15 @@
+import { createHash } from 'node:crypto';
+
+// Content-derived ID, so it survives rows being inserted or reordered in the sheet.
+export function contentId(category: string, problem: string): string {
+    return createHash('sha1').update(`${category}\n${problem}`).digest('base64url').slice(0, 10);
+}
+
+// Appends -2, -3, ... until the ID is not taken yet.
+export function uniqueId(id: string, taken: Set<string>): string {
+    let candidate = id;
+    for (let n = 2; taken.has(candidate); n++) {
+        candidate = `${id}-${n}`;
+    }
+    return candidate;
+}
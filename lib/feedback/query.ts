@@ -0,0 +1,97 @@
+import { search, type SearchIndex } from '../search/engine';
+import { EMPTY_FACETS, FACET_PARAMS, FACETS, matchesFacets, type FacetSelection } from '../search/facets';
+import type { FeedbackItem } from './types';
+
+// Query parameters of the read API (/api/feedback and its export), shared by both routes:
+//   ?category=&sub=&tag=&severity=  facets, as in the page's URL (see FACET_PARAMS)
+//   ?q=                             ranked full-text search; results come back in relevance order
+//   ?limit=&offset=                 pagination; no limit returns everything
+//   ?fields=id,problem              keep only these fields of each entry
+
+export type FeedbackField = keyof FeedbackItem;
+
+export const FEEDBACK_FIELDS: FeedbackField[] = ['id', 'category', 'subcategory', 'problem', 'solutions', 'tags', 'severity', 'related'];
+
+export const MAX_PAGE_SIZE = 500;
+
+export type FeedbackQuery = {
+    facets: FacetSelection;
+    q: string;
+    limit: number | null;
+    offset: number;
+    fields: FeedbackField[] | null;
+};
+
+export type FeedbackPage = {
+    total: number;
+    offset: number;
+    limit: number | null;
+    items: Partial<FeedbackItem>[];
+};
+
+export class FeedbackQueryError extends Error {
+    readonly status = 400;
+
+    constructor(message: string) {
+        super(message);
+        this.name = 'FeedbackQueryError';
+    }
+}
+
+function integerParam(params: URLSearchParams, name: string, min: number, max: number): number | null {
+    const raw = params.get(name);
+    if (raw === null || raw === '') return null;
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < min || value > max) {
+        throw new FeedbackQueryError(`"${name}" must be an integer between ${min} and ${max}`);
+    }
+    return value;
+}
+
+function fieldsParam(params: URLSearchParams): FeedbackField[] | null {
+    const raw = params.get('fields');
+    if (!raw) return null;
+    const fields = raw.split(',').map(field => field.trim()).filter(Boolean);
+    const unknown = fields.filter(field => !FEEDBACK_FIELDS.includes(field as FeedbackField));
+    if (unknown.length > 0) {
+        throw new FeedbackQueryError(`Unknown field(s): ${unknown.join(', ')}. Available: ${FEEDBACK_FIELDS.join(', ')}`);
+    }
+    return [...new Set(fields)] as FeedbackField[];
+}
+
+// Throws FeedbackQueryError (400) for malformed values.
+export function parseFeedbackQuery(params: URLSearchParams): FeedbackQuery {
+    const facets = { ...EMPTY_FACETS };
+    for (const facet of FACETS) {
+        facets[facet] = params.getAll(FACET_PARAMS[facet]).map(value => value.trim()).filter(Boolean);
+    }
+    return {
+        facets,
+        q: params.get('q')?.trim() || '',
+        limit: integerParam(params, 'limit', 1, MAX_PAGE_SIZE),
+        offset: integerParam(params, 'offset', 0, Number.MAX_SAFE_INTEGER) ?? 0,
+        fields: fieldsParam(params),
+    };
+}
+
+// Entries matching the facets and text query, before pagination. Without a query the sheet's order is kept.
+export function filterFeedback(index: SearchIndex<FeedbackItem>, query: FeedbackQuery): FeedbackItem[] {
+    const items = query.q ? search(index, query.q).map(hit => hit.item) : index.items;
+    return items.filter(item => matchesFacets(item, query.facets));
+}
+
+function pickFields(item: FeedbackItem, fields: FeedbackField[]): Partial<FeedbackItem> {
+    return Object.fromEntries(fields.filter(field => item[field] !== undefined).map(field => [field, item[field]]));
+}
+
+export function paginateFeedback(items: FeedbackItem[], query: FeedbackQuery): FeedbackPage {
+    const end = query.limit === null ? undefined : query.offset + query.limit;
+    const page = items.slice(query.offset, end);
+    const { fields } = query;
+    return {
+        total: items.length,
+        offset: query.offset,
+        limit: query.limit,
+        items: fields ? page.map(item => pickFields(item, fields)) : page,
+    };
+}
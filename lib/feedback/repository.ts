@@ -0,0 +1,42 @@
+import { createSource } from './sources';
+import type { FeedbackLoadResult, FeedbackSource } from './types';
+
+const SHEET_ID = '1kbOoBSrI1yHj0yEtexhFA6H_QuJL2IkzXFh9uaCSKsQ';
+
+// The Google Sheet is the source of truth; data/mock_data.json is the offline snapshot.
+const DEFAULT_SOURCES = `sheet:${SHEET_ID},json:data/mock_data.json`;
+
+// FEEDBACK_SOURCES is a comma separated list of "kind:target" specs, tried in order.
+// Remote sources always go first so local files only serve as a fallback.
+export function getConfiguredSources(): FeedbackSource[] {
+    const specs = (process.env.FEEDBACK_SOURCES || DEFAULT_SOURCES)
+        .split(',')
+        .map(spec => spec.trim())
+        .filter(Boolean);
+
+    const sources = specs.map(createSource);
+    return [...sources.filter(s => s.remote), ...sources.filter(s => !s.remote)];
+}
+
+export async function loadFeedback(sources: FeedbackSource[] = getConfiguredSources()): Promise<FeedbackLoadResult> {
+    const errors: string[] = [];
+
+    for (const [index, source] of sources.entries()) {
+        try {
+            const items = await source.load();
+            if (items.length === 0) {
+                throw new Error('Source returned no entries');
+            }
+            if (index > 0) {
+                console.warn(`[FEEDBACK] Serving ${items.length} items from fallback source ${source.name}`);
+            }
+            return { items, source: source.name, fallback: index > 0 };
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            console.error(`[FEEDBACK] Source ${source.name} failed: ${message}`);
+            errors.push(`${source.name}: ${message}`);
+        }
+    }
+
+    throw new Error(`All feedback sources failed (${errors.join('; ')})`);
+}
@@ -0,0 +1,206 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import Papa from 'papaparse';
+import { readEditorStore } from '../editor/store';
+import { contentId } from './ids';
+import { parseSeverity, parseTags } from './taxonomy';
+import type { FeedbackItem, FeedbackSource, RawRow, RawTable, SolutionVariant } from './types';
+import { parseVariantHeader } from './variants';
+
+const DEFAULT_FETCH_TIMEOUT_MS = 8000;
+
+function field(row: RawRow, ...keys: string[]): string {
+    for (const key of keys) {
+        const value = row[key];
+        if (typeof value === 'string' && value.trim()) return value.trim();
+        // JSON snapshots may hold tags as an array and severity as a number
+        if (Array.isArray(value) && value.length > 0) return value.join(',');
+        if (typeof value === 'number') return String(value);
+    }
+    return '';
+}
+
+// Accepted header names per field, sheet name first. Solution columns are discovered by name (see variants.ts).
+// Expected CSV Headers: (ID), 대분류, (중분류), 문제점, 솔루션 (버전1), 솔루션 (버전2), ..., (태그), (심각도), (관련)
+// JSON snapshots (data/mock_data.json) use: (id), category, (subcategory), problem, solution, (tags), (severity), (related)
+export const COLUMNS = {
+    id: ['ID', 'id'],
+    category: ['대분류', 'category'],
+    subcategory: ['중분류', 'subcategory'],
+    problem: ['문제점', 'problem'],
+    tags: ['태그', 'tags'],
+    severity: ['심각도', '우선순위', 'severity', 'priority'],
+    related: ['관련', 'related'],
+};
+
+// Every non-empty solution column of the row, in column order. A label seen twice keeps its first value.
+function variants(row: RawRow): SolutionVariant[] {
+    const found = new Map<string, SolutionVariant>();
+    for (const [header, value] of Object.entries(row)) {
+        const column = parseVariantHeader(header);
+        const text = typeof value === 'string' ? value.trim() : '';
+        if (column && text && !found.has(column.label)) {
+            found.set(column.label, { ...column, text });
+        }
+    }
+    return [...found.values()];
+}
+
+export const DEFAULT_CATEGORY = '기타';
+
+// Map a raw row to our internal structure.
+export function mapRow(row: RawRow): FeedbackItem {
+    const category = field(row, ...COLUMNS.category) || DEFAULT_CATEGORY;
+    const problem = field(row, ...COLUMNS.problem);
+    const subcategory = field(row, ...COLUMNS.subcategory);
+    const tags = parseTags(field(row, ...COLUMNS.tags));
+    const severity = parseSeverity(field(row, ...COLUMNS.severity));
+    // Entry IDs, separated by commas or whitespace
+    const related = field(row, ...COLUMNS.related).split(/[,\s]+/).filter(Boolean);
+    return {
+        id: field(row, ...COLUMNS.id) || contentId(category, problem),
+        category,
+        problem,
+        solutions: variants(row),
+        // Optional fields are left out when empty
+        ...(subcategory && { subcategory }),
+        ...(tags.length > 0 && { tags }),
+        ...(severity && { severity }),
+        ...(related.length > 0 && { related }),
+    };
+}
+
+// Rows without a problem or any solution can't be shown and are left out.
+export function isPublishable(item: FeedbackItem): boolean {
+    return Boolean(item.problem && item.solutions.length > 0);
+}
+
+// Repeated IDs (duplicate rows, or a copy-pasted ID cell) get a numeric suffix so every entry stays addressable.
+function dedupeIds(items: FeedbackItem[]): FeedbackItem[] {
+    const seen = new Map<string, number>();
+    return items.map(item => {
+        const count = (seen.get(item.id) ?? 0) + 1;
+        seen.set(item.id, count);
+        return count === 1 ? item : { ...item, id: `${item.id}-${count}` };
+    });
+}
+
+export function mapRows(rows: RawRow[]): FeedbackItem[] {
+    return dedupeIds(rows
+        .map(mapRow)
+        .filter(isPublishable)); // Filter out empty rows
+}
+
+// Empty lines are kept so row numbers match the sheet; mapRows drops them.
+export function parseCsvTable(csvText: string): RawTable {
+    const parsed = Papa.parse<RawRow>(csvText, { header: true });
+    return { headers: parsed.meta.fields ?? [], rows: parsed.data, firstRow: 2 };
+}
+
+export function parseCsv(csvText: string): FeedbackItem[] {
+    return mapRows(parseCsvTable(csvText).rows);
+}
+
+function jsonTable(jsonText: string, filePath: string): RawTable {
+    const rows: unknown = JSON.parse(jsonText);
+    if (!Array.isArray(rows)) {
+        throw new Error(`${filePath} does not contain a JSON array`);
+    }
+    const headers = new Set<string>();
+    for (const row of rows) Object.keys(row ?? {}).forEach(key => headers.add(key));
+    return { headers: [...headers], rows: rows as RawRow[], firstRow: 1 };
+}
+
+function resolveLocalPath(filePath: string): string {
+    return path.isAbsolute(filePath) ? filePath : path.join(process.cwd(), filePath);
+}
+
+export function sheetCsvUrl(sheetId: string): string {
+    return `https://docs.google.com/spreadsheets/d/${sheetId}/export?format=csv`;
+}
+
+export function createSheetSource(sheetId: string, timeoutMs = DEFAULT_FETCH_TIMEOUT_MS): FeedbackSource {
+    const url = sheetCsvUrl(sheetId);
+    const loadRows = async () => {
+        const response = await fetch(url, { cache: 'no-store', signal: AbortSignal.timeout(timeoutMs) });
+        if (!response.ok) {
+            throw new Error(`Failed to fetch Google Sheet CSV. Status: ${response.status}`);
+        }
+        return parseCsvTable(await response.text());
+    };
+    return {
+        kind: 'sheet',
+        name: `sheet:${sheetId}`,
+        remote: true,
+        loadRows,
+        async load() {
+            return mapRows((await loadRows()).rows);
+        },
+    };
+}
+
+export function createCsvFileSource(filePath: string): FeedbackSource {
+    const loadRows = async () => parseCsvTable(await readFile(resolveLocalPath(filePath), 'utf8'));
+    return {
+        kind: 'csv',
+        name: `csv:${filePath}`,
+        remote: false,
+        loadRows,
+        async load() {
+            return mapRows((await loadRows()).rows);
+        },
+    };
+}
+
+export function createJsonFileSource(filePath: string): FeedbackSource {
+    const loadRows = async () => jsonTable(await readFile(resolveLocalPath(filePath), 'utf8'), filePath);
+    return {
+        kind: 'json',
+        name: `json:${filePath}`,
+        remote: false,
+        loadRows,
+        async load() {
+            return mapRows((await loadRows()).rows);
+        },
+    };
+}
+
+// The in-app editor's store; archived entries are not published.
+export function createEditorSource(filePath: string): FeedbackSource {
+    return {
+        kind: 'editor',
+        name: `editor:${filePath}`,
+        remote: false,
+        async load() {
+            const { entries } = await readEditorStore(resolveLocalPath(filePath));
+            return entries
+                .filter(entry => !entry.archived)
+                .map(({ id, category, subcategory, problem, solutions, tags, severity, related }) =>
+                    ({ id, category, subcategory, problem, solutions, tags, severity, related }));
+        },
+    };
+}
+
+// Parses a single "kind:target" spec, e.g. "sheet:<id>", "csv:data/export.csv", "json:data/mock_data.json".
+export function createSource(spec: string): FeedbackSource {
+    const separator = spec.indexOf(':');
+    const kind = separator === -1 ? spec : spec.slice(0, separator);
+    const target = separator === -1 ? '' : spec.slice(separator + 1);
+
+    if (!target) {
+        throw new Error(`Feedback source "${spec}" is missing a target`);
+    }
+
+    switch (kind) {
+        case 'sheet':
+            return createSheetSource(target);
+        case 'csv':
+            return createCsvFileSource(target);
+        case 'json':
+            return createJsonFileSource(target);
+        case 'editor':
+            return createEditorSource(target);
+        default:
+            throw new Error(`Unknown feedback source kind "${kind}"`);
+    }
+}
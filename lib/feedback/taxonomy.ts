@@ -0,0 +1,47 @@
+// Subcategories, tags and severity: the optional classification columns of an entry.
+//   중분류 (subcategory)  free text, shown under its 대분류
+//   태그 (tags)           comma or "#" separated, e.g. "#자막, 가독성"
+//   심각도 (severity)     높음/중간/낮음, 상/중/하, high/medium/low or 1-3 (1 = high)
+// Client-safe: used by the page's facets as well as the sources.
+
+export type Severity = 'high' | 'medium' | 'low';
+
+// Most severe first
+export const SEVERITIES: Severity[] = ['high', 'medium', 'low'];
+
+export const SEVERITY_LABELS: Record<Severity, string> = {
+    high: '높음',
+    medium: '중간',
+    low: '낮음',
+};
+
+const SEVERITY_ALIASES: Record<string, Severity> = {
+    high: 'high',
+    medium: 'medium',
+    low: 'low',
+    '높음': 'high',
+    '중간': 'medium',
+    '보통': 'medium',
+    '낮음': 'low',
+    '상': 'high',
+    '중': 'medium',
+    '하': 'low',
+    '1': 'high',
+    '2': 'medium',
+    '3': 'low',
+};
+
+export function parseSeverity(text: string): Severity | undefined {
+    return SEVERITY_ALIASES[text.trim().toLowerCase()];
+}
+
+// Unique, in the order written
+export function parseTags(text: string): string[] {
+    const tags = text.split(/[,#\n]/).map(tag => tag.trim()).filter(Boolean);
+    return [...new Set(tags)];
+}
+
+// Lower rank = more severe; entries without a severity sort last.
+export function severityRank(severity: Severity | undefined): number {
+    return severity ? SEVERITIES.indexOf(severity) : SEVERITIES.length;
+}
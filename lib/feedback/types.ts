@@ -0,0 +1,57 @@
+import type { Severity } from './taxonomy';
+
+// One phrasing of a solution, e.g. "버전1", "부드럽게" or a short chat-sized version.
+export type SolutionVariant = {
+    label: string;
+    text: string;
+    // Optional hints from the column header, e.g. "솔루션 (직설) [tone=blunt, length=short]"
+    tone?: string;
+    length?: string;
+};
+
+// Shared shape of a single encyclopedia entry, regardless of where it was loaded from.
+export type FeedbackItem = {
+    // Stable identifier: the sheet's ID column when present, otherwise derived from category + problem
+    id: string;
+    category: string;
+    problem: string;
+    // Non-empty variants only, in column order
+    solutions: SolutionVariant[];
+    // Optional classification, see taxonomy.ts
+    subcategory?: string;
+    tags?: string[];
+    severity?: Severity;
+    // IDs of entries curated as "see also" (the 관련 column); see lib/related
+    related?: string[];
+};
+
+// A raw row as it comes out of a CSV/JSON source, before mapping.
+export type RawRow = Record<string, unknown>;
+
+// Raw rows plus what's needed to check them against the expected columns.
+export type RawTable = {
+    headers: string[];
+    rows: RawRow[];
+    // Row number of rows[0] as the editor sees it (2 for a sheet/CSV with a header row, 1 for JSON)
+    firstRow: number;
+};
+
+export type FeedbackSourceKind = 'sheet' | 'csv' | 'json' | 'editor';
+
+export interface FeedbackSource {
+    kind: FeedbackSourceKind;
+    // Human readable identifier, e.g. "sheet:<id>" or "json:data/mock_data.json"
+    name: string;
+    // Remote sources are tried first; local ones act as the offline snapshot.
+    remote: boolean;
+    load(): Promise<FeedbackItem[]>;
+    // Unmapped rows, for validation. Sources that aren't tables (the editor store) don't have them.
+    loadRows?(): Promise<RawTable>;
+}
+
+export type FeedbackLoadResult = {
+    items: FeedbackItem[];
+    source: string;
+    // Set when an earlier source failed and a later one had to serve the request.
+    fallback: boolean;
+};
@@ -0,0 +1,313 @@
+import { normalize } from '../search/tokenize';
+import { getConfiguredSources } from './repository';
+import { COLUMNS, createSource, DEFAULT_CATEGORY, isPublishable, mapRow } from './sources';
+import type { FeedbackItem, RawRow, RawTable } from './types';
+import { parseVariantHeader } from './variants';
+
+// Pre-publish checks for a sheet export: everything mapRows would silently drop or default,
+// plus likely editing mistakes (duplicates, one-off category typos).
+
+export type IssueSeverity = 'error' | 'warning';
+
+export type IssueCode =
+    | 'missing-column'
+    | 'unexpected-column'
+    | 'dropped-row'
+    | 'default-category'
+    | 'duplicate-id'
+    | 'duplicate-problem'
+    | 'near-duplicate-problem'
+    | 'rare-category'
+    | 'unknown-severity'
+    | 'unknown-related-id';
+
+export type ValidationIssue = {
+    severity: IssueSeverity;
+    code: IssueCode;
+    message: string;
+    // Row numbers as the editor sees them in the sheet
+    rows: number[];
+};
+
+export type ValidationReport = {
+    source: string;
+    checkedAt: string;
+    columns: {
+        found: string[];
+        // Labels of the solution variant columns
+        variants: string[];
+        missing: string[];
+        unexpected: string[];
+    };
+    totalRows: number;
+    validRows: number;
+    errorCount: number;
+    warningCount: number;
+    issues: ValidationIssue[];
+};
+
+// Problems at least this similar (character bigram Dice coefficient) are flagged as near-duplicates.
+const NEAR_DUPLICATE_THRESHOLD = 0.8;
+
+type Column = keyof typeof COLUMNS;
+
+// Without these the rows are dropped or all filed under the default category
+const REQUIRED_COLUMNS: Column[] = ['category', 'problem'];
+
+// Suggested when there is no solution column at all
+const EXPECTED_SOLUTION_COLUMN = '솔루션 (버전1)';
+
+const ALL_ALIASES = new Set(Object.values(COLUMNS).flat());
+
+function comparable(text: string): string {
+    return normalize(text).replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+function bigrams(text: string): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (let i = 0; i < text.length - 1; i++) {
+        const gram = text.slice(i, i + 2);
+        counts.set(gram, (counts.get(gram) ?? 0) + 1);
+    }
+    return counts;
+}
+
+export function similarity(a: string, b: string): number {
+    const left = bigrams(comparable(a));
+    const right = bigrams(comparable(b));
+    const total = [...left.values(), ...right.values()].reduce((sum, n) => sum + n, 0);
+    if (total === 0) return comparable(a) === comparable(b) ? 1 : 0;
+
+    let shared = 0;
+    for (const [gram, count] of left) shared += Math.min(count, right.get(gram) ?? 0);
+    return (2 * shared) / total;
+}
+
+function closest(text: string, candidates: string[]): string | undefined {
+    let best: string | undefined;
+    let bestScore = 0.5;
+    for (const candidate of candidates) {
+        const score = similarity(text, candidate);
+        if (score > bestScore) {
+            best = candidate;
+            bestScore = score;
+        }
+    }
+    return best;
+}
+
+function hasValue(row: RawRow, aliases: string[]): boolean {
+    return aliases.some(alias => typeof row[alias] === 'string' && (row[alias] as string).trim() !== '');
+}
+
+function field(row: RawRow, aliases: string[]): string {
+    const value = aliases.map(alias => row[alias]).find(candidate => candidate !== undefined && candidate !== null);
+    return value === undefined ? '' : String(value).trim();
+}
+
+function isBlank(row: RawRow): boolean {
+    return Object.values(row).every(value => value === undefined || value === null || String(value).trim() === '');
+}
+
+function checkColumns(headers: string[], issues: ValidationIssue[]): ValidationReport['columns'] {
+    const isKnown = (header: string) => ALL_ALIASES.has(header) || parseVariantHeader(header) !== null;
+    const found = headers.filter(isKnown);
+    const variants = headers.flatMap(header => parseVariantHeader(header)?.label ?? []);
+    const unexpected = headers.filter(header => header.trim() && !isKnown(header));
+    const missing: string[] = [];
+
+    const reportMissing = (expected: string) => {
+        const renamed = closest(expected, unexpected);
+        missing.push(expected);
+        issues.push({
+            severity: 'error',
+            code: 'missing-column',
+            message: `Column "${expected}" is missing${renamed ? ` (was it renamed to "${renamed}"?)` : ''}`,
+            rows: [],
+        });
+    };
+
+    for (const column of REQUIRED_COLUMNS) {
+        if (!COLUMNS[column].some(alias => headers.includes(alias))) reportMissing(COLUMNS[column][0]);
+    }
+    if (variants.length === 0) reportMissing(EXPECTED_SOLUTION_COLUMN);
+
+    for (const header of unexpected) {
+        issues.push({ severity: 'warning', code: 'unexpected-column', message: `Column "${header}" is not used and will be ignored`, rows: [] });
+    }
+
+    return { found, variants, missing, unexpected };
+}
+
+function checkDuplicates(items: { item: FeedbackItem; row: number }[], issues: ValidationIssue[]): void {
+    const byId = new Map<string, number[]>();
+    const byProblem = new Map<string, { problem: string; rows: number[] }>();
+
+    for (const { item, row } of items) {
+        byId.set(item.id, [...(byId.get(item.id) ?? []), row]);
+        const key = comparable(item.problem);
+        const group = byProblem.get(key) ?? { problem: item.problem, rows: [] };
+        group.rows.push(row);
+        byProblem.set(key, group);
+    }
+
+    for (const [id, rows] of byId) {
+        if (rows.length > 1) {
+            issues.push({ severity: 'warning', code: 'duplicate-id', message: `ID "${id}" is used by ${rows.length} rows`, rows });
+        }
+    }
+
+    const groups = [...byProblem.values()];
+    for (const group of groups) {
+        if (group.rows.length > 1) {
+            issues.push({ severity: 'warning', code: 'duplicate-problem', message: `"${group.problem}" appears ${group.rows.length} times`, rows: group.rows });
+        }
+    }
+
+    for (let i = 0; i < groups.length; i++) {
+        for (let j = i + 1; j < groups.length; j++) {
+            const score = similarity(groups[i].problem, groups[j].problem);
+            if (score >= NEAR_DUPLICATE_THRESHOLD) {
+                issues.push({
+                    severity: 'warning',
+                    code: 'near-duplicate-problem',
+                    message: `"${groups[i].problem}" and "${groups[j].problem}" are ${Math.round(score * 100)}% similar`,
+                    rows: [groups[i].rows[0], groups[j].rows[0]],
+                });
+            }
+        }
+    }
+}
+
+// A category used by a single row is most likely a typo of another one.
+function checkCategories(items: { item: FeedbackItem; row: number }[], issues: ValidationIssue[]): void {
+    const rowsByCategory = new Map<string, number[]>();
+    for (const { item, row } of items) {
+        rowsByCategory.set(item.category, [...(rowsByCategory.get(item.category) ?? []), row]);
+    }
+
+    const categories = [...rowsByCategory.keys()];
+    for (const [category, rows] of rowsByCategory) {
+        if (rows.length !== 1 || categories.length < 2) continue;
+
+        const suggestion = closest(category, categories.filter(other => other !== category));
+        issues.push({
+            severity: 'warning',
+            code: 'rare-category',
+            message: `Category "${category}" is used only once${suggestion ? ` (did you mean "${suggestion}"?)` : ''}`,
+            rows,
+        });
+    }
+}
+
+// 관련 should only list IDs of published entries.
+function checkRelated(items: { item: FeedbackItem; row: number }[], issues: ValidationIssue[]): void {
+    const ids = new Set(items.map(({ item }) => item.id));
+    for (const { item, row } of items) {
+        for (const id of item.related ?? []) {
+            if (ids.has(id)) continue;
+            issues.push({
+                severity: 'warning',
+                code: 'unknown-related-id',
+                message: `Row ${row} lists "${id}" in 관련, but no entry has that ID`,
+                rows: [row],
+            });
+        }
+    }
+}
+
+export function validateTable(table: RawTable, source: string): ValidationReport {
+    const issues: ValidationIssue[] = [];
+    const columns = checkColumns(table.headers, issues);
+    const valid: { item: FeedbackItem; row: number }[] = [];
+    let totalRows = 0;
+
+    table.rows.forEach((raw, index) => {
+        if (isBlank(raw)) return;
+        totalRows++;
+
+        const row = table.firstRow + index;
+        const item = mapRow(raw);
+        if (!isPublishable(item)) {
+            const reason = !item.problem ? 'no 문제점' : 'no 솔루션';
+            issues.push({
+                severity: 'error',
+                code: 'dropped-row',
+                message: `Row ${row} is dropped: ${reason}${item.problem ? ` ("${item.problem}")` : ''}`,
+                rows: [row],
+            });
+            return;
+        }
+
+        const severity = field(raw, COLUMNS.severity);
+        if (severity && !item.severity) {
+            issues.push({
+                severity: 'warning',
+                code: 'unknown-severity',
+                message: `Row ${row} has an unknown 심각도 "${severity}" (use 높음, 중간 or 낮음)`,
+                rows: [row],
+            });
+        }
+
+        if (!hasValue(raw, COLUMNS.category)) {
+            issues.push({
+                severity: 'warning',
+                code: 'default-category',
+                message: `Row ${row} has no 대분류 and is filed under "${DEFAULT_CATEGORY}"`,
+                rows: [row],
+            });
+        }
+        valid.push({ item, row });
+    });
+
+    checkDuplicates(valid, issues);
+    checkCategories(valid, issues);
+    checkRelated(valid, issues);
+
+    return {
+        source,
+        checkedAt: new Date().toISOString(),
+        columns,
+        totalRows,
+        validRows: valid.length,
+        errorCount: issues.filter(issue => issue.severity === 'error').length,
+        warningCount: issues.filter(issue => issue.severity === 'warning').length,
+        issues,
+    };
+}
+
+// Validates the given "kind:target" source spec, or by default the first configured source with raw rows
+// (normally the Google Sheet).
+export async function validateSource(spec?: string): Promise<ValidationReport> {
+    const source = spec ? createSource(spec) : getConfiguredSources().find(candidate => candidate.loadRows);
+    if (!source?.loadRows) {
+        throw new Error(`Source ${source?.name ?? spec} has no rows to validate`);
+    }
+    return validateTable(await source.loadRows(), source.name);
+}
+
+// Plain-text rendering for the CLI.
+export function formatValidationReport(report: ValidationReport): string {
+    const lines = [
+        `Source: ${report.source}`,
+        `Rows: ${report.validRows}/${report.totalRows} valid, ${report.errorCount} error(s), ${report.warningCount} warning(s)`,
+    ];
+    if (report.columns.missing.length > 0) {
+        lines.push(`Missing columns: ${report.columns.missing.join(', ')}`);
+    }
+
+    for (const severity of ['error', 'warning'] as const) {
+        const issues = report.issues.filter(issue => issue.severity === severity);
+        if (issues.length === 0) continue;
+
+        lines.push('', severity === 'error' ? 'Errors:' : 'Warnings:');
+        for (const issue of issues) {
+            const rows = issue.rows.length > 0 && issue.code !== 'dropped-row' && issue.code !== 'default-category'
+                ? ` [rows ${issue.rows.join(', ')}]`
+                : '';
+            lines.push(`  - ${issue.message}${rows}`);
+        }
+    }
+
+    return lines.join('\n');
+}
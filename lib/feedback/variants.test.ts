@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { FeedbackItem } from './types';
+import { DEFAULT_VARIANT_LABEL, parseVariantHeader, pickVariant, primarySolution, variantColumns, variantHeader } from './variants';
+
+function entry(solutions: FeedbackItem['solutions']): FeedbackItem {
+    return { id: 'a', category: '텍스트', problem: '자막이 많습니다', solutions };
+}
+
+describe('parseVariantHeader', () => {
+    it('gives a bare solution column the default label', () => {
+        assert.deepEqual(parseVariantHeader('솔루션'), { label: DEFAULT_VARIANT_LABEL });
+        assert.deepEqual(parseVariantHeader('  Solution '), { label: DEFAULT_VARIANT_LABEL });
+    });
+
+    it('labels numbered columns "버전n"', () => {
+        assert.deepEqual(parseVariantHeader('solution1'), { label: '버전1' });
+        assert.deepEqual(parseVariantHeader('솔루션 2'), { label: '버전2' });
+    });
+
+    it('uses the label in parentheses', () => {
+        assert.deepEqual(parseVariantHeader('솔루션 (버전1)'), { label: '버전1' });
+        assert.deepEqual(parseVariantHeader('솔루션( 부드럽게 )'), { label: '부드럽게' });
+    });
+
+    it('reads tone and length metadata in English or Korean keys', () => {
+        assert.deepEqual(parseVariantHeader('솔루션 (직설) [tone=blunt, length=short]'), { label: '직설', tone: 'blunt', length: 'short' });
+        assert.deepEqual(parseVariantHeader('솔루션 (짧게) [길이: short, 톤: soft]'), { label: '짧게', tone: 'soft', length: 'short' });
+    });
+
+    it('ignores unknown metadata keys and empty values', () => {
+        assert.deepEqual(parseVariantHeader('솔루션 (직설) [mood=angry, tone=]'), { label: '직설' });
+    });
+
+    it('returns null for other columns', () => {
+        for (const header of ['문제점', '카테고리', '솔루션 메모', 'solutions', '']) {
+            assert.equal(parseVariantHeader(header), null, header);
+        }
+    });
+
+    it('round-trips through variantHeader', () => {
+        const column = { label: '직설', tone: 'blunt', length: 'short' };
+        assert.equal(variantHeader(column), '솔루션 (직설) [tone=blunt, length=short]');
+        assert.deepEqual(parseVariantHeader(variantHeader(column)), column);
+        assert.deepEqual(parseVariantHeader(variantHeader({ label: '기본' })), { label: '기본' });
+    });
+});
+
+describe('primarySolution', () => {
+    it('returns the first variant, or an empty string when there is none', () => {
+        assert.equal(primarySolution(entry([{ label: '버전1', text: '첫째' }, { label: '버전2', text: '둘째' }])), '첫째');
+        assert.equal(primarySolution(entry([])), '');
+    });
+});
+
+describe('pickVariant', () => {
+    const item = entry([{ label: '버전1', text: '첫째' }, { label: '직설', text: '둘째' }]);
+
+    it('prefers the label, then a 1-based position, then the first variant', () => {
+        assert.equal(pickVariant(item, '직설')?.text, '둘째');
+        assert.equal(pickVariant(item, '2')?.text, '둘째');
+        assert.equal(pickVariant(item, '9')?.text, '첫째');
+        assert.equal(pickVariant(item, '없는 라벨')?.text, '첫째');
+        assert.equal(pickVariant(item, null)?.text, '첫째');
+        assert.equal(pickVariant(entry([]), '직설'), undefined);
+    });
+});
+
+describe('variantColumns', () => {
+    it('lists labels in first-seen order with the first metadata', () => {
+        const items = [
+            entry([{ label: '버전1', text: 'a' }, { label: '직설', text: 'b', tone: 'blunt' }]),
+            entry([{ label: '직설', text: 'c', tone: 'other' }, { label: '짧게', text: 'd', length: 'short' }]),
+        ];
+        assert.deepEqual(variantColumns(items), [
+            { label: '버전1', tone: undefined, length: undefined },
+            { label: '직설', tone: 'blunt', length: undefined },
+            { label: '짧게', tone: undefined, length: 'short' },
+        ]);
+    });
+});
@@ -0,0 +1,73 @@
+import type { FeedbackItem, SolutionVariant } from './types';
+
+// Solution variants are discovered from the column headers. Any "솔루션" / "solution" column is a variant:
+//   솔루션                                 -> "기본"
+//   솔루션 (버전1), solution1              -> "버전1"
+//   솔루션 (직설) [tone=blunt, length=short] -> "직설", with tone/length metadata
+// Client-safe: used by the page and the editor as well as the sources.
+
+export const DEFAULT_VARIANT_LABEL = '기본';
+
+const VARIANT_HEADER = /^(?:솔루션|solution)\s*(\d*)\s*(?:\(([^)]*)\))?\s*(?:\[([^\]]*)\])?$/i;
+
+const META_KEYS: Record<string, 'tone' | 'length'> = {
+    tone: 'tone',
+    '톤': 'tone',
+    length: 'length',
+    '길이': 'length',
+};
+
+export type VariantColumn = Omit<SolutionVariant, 'text'>;
+
+export function parseVariantHeader(header: string): VariantColumn | null {
+    const match = header.trim().match(VARIANT_HEADER);
+    if (!match) return null;
+
+    const [, number, label, meta] = match;
+    const column: VariantColumn = {
+        label: label?.trim() || (number ? `버전${number}` : DEFAULT_VARIANT_LABEL),
+    };
+    for (const pair of (meta ?? '').split(',')) {
+        const [key, value] = pair.split(/[=:]/).map(part => part.trim());
+        const field = META_KEYS[key?.toLowerCase()];
+        if (field && value) column[field] = value;
+    }
+    return column;
+}
+
+// Inverse of parseVariantHeader, for CSV exports.
+export function variantHeader(variant: VariantColumn): string {
+    const meta = [
+        variant.tone && `tone=${variant.tone}`,
+        variant.length && `length=${variant.length}`,
+    ].filter(Boolean).join(', ');
+    return `솔루션 (${variant.label})${meta ? ` [${meta}]` : ''}`;
+}
+
+// The variant to show first: the user's preferred label when this entry has it, otherwise the first one.
+// A number selects by position (1-based), which keeps old "?v=2" links working.
+export function pickVariant(item: FeedbackItem, preferred?: string | null): SolutionVariant | undefined {
+    if (preferred) {
+        const byLabel = item.solutions.find(variant => variant.label === preferred);
+        if (byLabel) return byLabel;
+        if (/^\d+$/.test(preferred) && item.solutions[Number(preferred) - 1]) {
+            return item.solutions[Number(preferred) - 1];
+        }
+    }
+    return item.solutions[0];
+}
+
+export function primarySolution(item: FeedbackItem): string {
+    return item.solutions[0]?.text ?? '';
+}
+
+// Every label in use, in first-seen order, with the metadata of its first occurrence.
+export function variantColumns(items: FeedbackItem[]): VariantColumn[] {
+    const columns = new Map<string, VariantColumn>();
+    for (const item of items) {
+        for (const { label, tone, length } of item.solutions) {
+            if (!columns.has(label)) columns.set(label, { label, tone, length });
+        }
+    }
+    return [...columns.values()];
+}
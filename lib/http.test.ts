@@ -0,0 +1,20 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { NextResponse } from 'next/server';
+import { readJsonBody } from './http';
+
+const post = (body: string) => new Request('http://localhost/api/creators', { method: 'POST', body, headers: { 'Content-Type': 'application/json' } });
+
+describe('readJsonBody', () => {
+    it('returns a JSON object body', async () => {
+        assert.deepEqual(await readJsonBody(post('{"name":"크리에이터"}')), { name: '크리에이터' });
+    });
+
+    for (const [name, body] of [['malformed JSON', '{"name":'], ['an empty body', ''], ['null', 'null'], ['an array', '[1]'], ['a string', '"x"']]) {
+        it(`answers ${name} with 400`, async () => {
+            const result = await readJsonBody(post(body));
+            assert.ok(result instanceof NextResponse);
+            assert.equal(result.status, 400);
+        });
+    }
+});
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+
+// Reads a JSON object body. Returns the response to send back when the body is malformed or isn't an
+// object, so bad client input gets a 400 instead of failing later as a 500.
+export async function readJsonBody(request: Request): Promise<Record<string, unknown> | NextResponse> {
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: 'Request body must be valid JSON' }, { status: 400 });
+    }
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+        return NextResponse.json({ error: 'Request body must be a JSON object' }, { status: 400 });
+    }
+    return body as Record<string, unknown>;
+}
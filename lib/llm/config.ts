@@ -0,0 +1,39 @@
+import type { LlmConfig, LlmProviderName } from './types';
+
+const DEFAULT_MODELS: Record<LlmProviderName, string> = {
+    gemini: 'gemini-2.0-flash',
+    openai: 'gpt-4o-mini',
+    mock: 'mock',
+};
+
+function numberFromEnv(name: string, fallback: number): number {
+    const value = Number(process.env[name]);
+    return process.env[name] && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function providerFromEnv(): LlmProviderName {
+    const value = process.env.LLM_PROVIDER?.trim().toLowerCase();
+    if (!value) return 'gemini';
+    if (value === 'gemini' || value === 'openai' || value === 'mock') return value;
+    throw new Error(`Unknown LLM_PROVIDER "${value}" (expected gemini, openai or mock)`);
+}
+
+// Reads the LLM settings from the environment. Everything except the provider's own
+// credentials has a default, so an empty .env still means "Gemini, as before".
+export function getLlmConfig(): LlmConfig {
+    const provider = providerFromEnv();
+    return {
+        provider,
+        model: process.env.LLM_MODEL?.trim() || DEFAULT_MODELS[provider],
+        timeoutMs: numberFromEnv('LLM_TIMEOUT_MS', 20000),
+        maxRetries: numberFromEnv('LLM_MAX_RETRIES', 2),
+        retryDelayMs: numberFromEnv('LLM_RETRY_DELAY_MS', 500),
+        gemini: {
+            apiKey: process.env.GEMINI_API_KEY,
+        },
+        openai: {
+            baseUrl: (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, ''),
+            apiKey: process.env.OPENAI_API_KEY,
+        },
+    };
+}
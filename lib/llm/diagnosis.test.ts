@@ -0,0 +1,40 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it, mock } from 'node:test';
+import { MAX_MATCHES_PER_SEGMENT, parseDiagnosis } from './diagnosis';
+
+const segments = ['자막이 너무 많아요.', '배경음악이 커요.'];
+const known = new Set([0, 1, 2, 3, 4]);
+
+beforeEach(() => {
+    mock.method(console, 'warn', () => undefined);
+});
+
+describe('parseDiagnosis', () => {
+    it('keys validated matches by segment number', () => {
+        const response = JSON.stringify({
+            segments: [
+                { segment: 1, matches: [{ id: 3, score: 70, quote: '배경음악이 커요', reason: '음악이 큽니다.' }] },
+                { segment: 0, matches: [{ id: 9, score: 90 }] },
+            ],
+        });
+        const result = parseDiagnosis(response, segments, known);
+        assert.deepEqual([...result.keys()], [1]);
+        assert.equal(result.get(1)?.[0].quote, '배경음악이 커요');
+    });
+
+    it('ignores segments that are out of range or malformed', () => {
+        const response = JSON.stringify({
+            segments: [{ segment: 5, matches: [{ id: 0 }] }, { segment: -1, matches: [{ id: 0 }] }, { segment: 0, matches: 'x' }, null],
+        });
+        assert.equal(parseDiagnosis(response, segments, known).size, 0);
+    });
+
+    it('caps the matches per segment', () => {
+        const response = JSON.stringify({ segments: [{ segment: 0, matches: [0, 1, 2, 3, 4] }] });
+        assert.equal(parseDiagnosis(response, segments, known).get(0)?.length, MAX_MATCHES_PER_SEGMENT);
+    });
+
+    it('rejects an answer without a segments array', () => {
+        assert.throws(() => parseDiagnosis('{"matches": []}', segments, known), /no "segments" array/);
+    });
+});
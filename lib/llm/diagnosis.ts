@@ -0,0 +1,40 @@
+import { encodeUserInput, extractJson, formatCandidates, validateMatches, type AiMatch, type MatchCandidate } from './matching';
+
+// Prompt and response schema for diagnosing a segmented draft: each segment gets zero or more matches.
+
+export const MAX_MATCHES_PER_SEGMENT = 3;
+
+export function buildDiagnosisPrompt(segments: string[], candidates: MatchCandidate[]): string {
+    return `The user has provided a draft (a short-form video script or caption), split into segments.
+The segments are a JSON array; segment numbers are the array indexes starting at 0:
+<user_input>
+${encodeUserInput(segments)}
+</user_input>
+
+Here is the list of known problems:
+${formatCandidates(candidates)}
+
+Task: For each segment, identify up to ${MAX_MATCHES_PER_SEGMENT} problems from the list that this segment clearly suffers from.
+Most segments usually have no problem; leave them out. Only use IDs from the list.
+
+Respond with JSON of this exact shape:
+{"segments": [{"segment": <number>, "matches": [{"id": <number>, "score": <integer 0-100>, "quote": "<exact excerpt of that segment>", "reason": "<one sentence in Korean>"}]}]}`;
+}
+
+// Parses and validates the model's answer, keyed by segment number. Unknown segments are ignored.
+export function parseDiagnosis(responseText: string, segments: string[], knownRefs: Set<number>): Map<number, AiMatch[]> {
+    const parsed = extractJson(responseText) as { segments?: unknown } | null;
+    if (!Array.isArray(parsed?.segments)) {
+        throw new Error('AI response has no "segments" array');
+    }
+
+    const result = new Map<number, AiMatch[]>();
+    for (const raw of parsed.segments as { segment?: unknown; matches?: unknown }[]) {
+        const index = Number(raw?.segment);
+        if (!Number.isInteger(index) || index < 0 || index >= segments.length || !Array.isArray(raw.matches)) continue;
+
+        const matches = validateMatches(raw.matches, segments[index], knownRefs, MAX_MATCHES_PER_SEGMENT);
+        if (matches.length > 0) result.set(index, matches);
+    }
+    return result;
+}
@@ -0,0 +1,24 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import type { LlmProvider } from './types';
+
+export function createGeminiProvider(apiKey: string, model: string): LlmProvider {
+    const genAI = new GoogleGenerativeAI(apiKey);
+
+    return {
+        name: 'gemini',
+        model,
+        async generate(request, options = {}) {
+            const generativeModel = genAI.getGenerativeModel({
+                model,
+                systemInstruction: request.system,
+                generationConfig: request.json ? { responseMimeType: 'application/json' } : undefined,
+            });
+
+            const result = await generativeModel.generateContent(request.prompt, { signal: options.signal });
+            if (result.response.promptFeedback?.blockReason) {
+                throw new Error(`Gemini blocked the prompt: ${result.response.promptFeedback.blockReason}`);
+            }
+            return result.response.text();
+        },
+    };
+}
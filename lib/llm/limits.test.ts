@@ -0,0 +1,42 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { consumeAiQuota } from './limits';
+
+describe('consumeAiQuota', () => {
+    let dir = '';
+    before(async () => {
+        dir = await mkdtemp(path.join(tmpdir(), 'ai-budget-'));
+        process.env.AI_BUDGET_PATH = path.join(dir, 'budget.json');
+        process.env.AI_RATE_LIMIT_GLOBAL = '0';
+    });
+    after(async () => {
+        delete process.env.AI_BUDGET_PATH;
+        delete process.env.AI_RATE_LIMIT_GLOBAL;
+        delete process.env.AI_RATE_LIMIT_PER_USER;
+        delete process.env.AI_DAILY_BUDGET;
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('lets only the per-user limit through when requests arrive at once', async () => {
+        process.env.AI_RATE_LIMIT_PER_USER = '2';
+        process.env.AI_DAILY_BUDGET = '100';
+
+        const results = await Promise.all(Array.from({ length: 5 }, () => consumeAiQuota('ip:burst')));
+        assert.equal(results.filter(result => result === null).length, 2);
+        assert.ok(results.every(result => result === null || result.scope === 'user'));
+    });
+
+    it('does not count a request the daily budget turned away', async () => {
+        process.env.AI_RATE_LIMIT_PER_USER = '2';
+        process.env.AI_DAILY_BUDGET = '1';
+
+        // The budget file already holds the 2 calls from the test above
+        assert.equal((await consumeAiQuota('ip:budget'))?.scope, 'daily');
+        process.env.AI_DAILY_BUDGET = '100';
+        assert.equal(await consumeAiQuota('ip:budget'), null);
+        assert.equal(await consumeAiQuota('ip:budget'), null);
+    });
+});
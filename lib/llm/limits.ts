@@ -0,0 +1,115 @@
+import { NextResponse } from 'next/server';
+import { createRateLimiter } from '../auth/rate-limit';
+import { createJsonFileStore, resolveDataPath } from '../storage/json-file';
+
+// Guards for the routes that call the LLM: per-user and global rate limits, and a daily budget
+// of LLM calls shared by everyone. All limits are read from the environment on every request.
+
+export type AiLimitScope = 'user' | 'global' | 'daily';
+
+export type AiLimitExceeded = {
+    scope: AiLimitScope;
+    // Seconds until a request would be accepted again
+    retryAfter: number;
+};
+
+type BudgetData = {
+    // Day the count is for, in Korean time (YYYY-MM-DD)
+    date: string;
+    used: number;
+};
+
+const DEFAULT_BUDGET_PATH = '.data/ai-budget.json';
+const BUDGET_TIME_ZONE = 'Asia/Seoul';
+
+function numberFromEnv(name: string, fallback: number): number {
+    const value = Number(process.env[name]);
+    return process.env[name] && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+// 0 turns a limit off
+function getLimits() {
+    return {
+        perUser: numberFromEnv('AI_RATE_LIMIT_PER_USER', 10),
+        global: numberFromEnv('AI_RATE_LIMIT_GLOBAL', 60),
+        daily: numberFromEnv('AI_DAILY_BUDGET', 1000),
+    };
+}
+
+export function getMaxQueryLength(): number {
+    return numberFromEnv('AI_MAX_QUERY_LENGTH', 500);
+}
+
+// Both rate limits count requests per minute
+const limiter = createRateLimiter(60 * 1000);
+
+// The count survives restarts, unlike the per-minute limits
+const budget = createJsonFileStore<BudgetData>(
+    () => resolveDataPath(process.env.AI_BUDGET_PATH || DEFAULT_BUDGET_PATH),
+    () => ({ date: '', used: 0 }),
+);
+
+function today(): string {
+    return new Intl.DateTimeFormat('en-CA', { timeZone: BUDGET_TIME_ZONE }).format(new Date());
+}
+
+function secondsUntilTomorrow(): number {
+    const now = new Date();
+    const local = new Date(now.toLocaleString('en-US', { timeZone: BUDGET_TIME_ZONE }));
+    const midnight = new Date(local);
+    midnight.setHours(24, 0, 0, 0);
+    return Math.max(1, Math.ceil((midnight.getTime() - local.getTime()) / 1000));
+}
+
+// Counts one LLM call for `requester` (see identifyRequester), or says which limit it would exceed.
+// The per-minute hits are recorded before the budget is read, so concurrent requests can't all slip
+// past the check; they are taken back when the budget turns the request away.
+export async function consumeAiQuota(requester: string): Promise<AiLimitExceeded | null> {
+    const limits = getLimits();
+
+    const userWait = limiter.retryAfter(requester, limits.perUser);
+    if (userWait > 0) return { scope: 'user', retryAfter: userWait };
+    const globalWait = limiter.retryAfter('*', limits.global);
+    if (globalWait > 0) return { scope: 'global', retryAfter: globalWait };
+    limiter.hit(requester);
+    limiter.hit('*');
+    const release = () => {
+        limiter.undo(requester);
+        limiter.undo('*');
+    };
+
+    if (limits.daily > 0) {
+        const withinBudget = await budget.mutate(data => {
+            const date = today();
+            if (data.date !== date) {
+                data.date = date;
+                data.used = 0;
+            }
+            if (data.used >= limits.daily) return false;
+            data.used++;
+            return true;
+        }).catch(error => {
+            release();
+            throw error;
+        });
+        if (!withinBudget) {
+            release();
+            return { scope: 'daily', retryAfter: secondsUntilTomorrow() };
+        }
+    }
+
+    return null;
+}
+
+const LIMIT_MESSAGES: Record<AiLimitScope, string> = {
+    user: 'Too many AI requests, please wait a moment',
+    global: 'The AI is busy, please wait a moment',
+    daily: 'Daily AI budget used up',
+};
+
+export function aiLimitResponse({ scope, retryAfter }: AiLimitExceeded): NextResponse {
+    return NextResponse.json(
+        { error: LIMIT_MESSAGES[scope], scope, retryAfter },
+        { status: 429, headers: { 'Retry-After': String(retryAfter) } },
+    );
+}
@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it, mock } from 'node:test';
+import { clampLimit, encodeUserInput, extractJson, parseMatches, validateMatches } from './matching';
+
+const known = new Set([0, 1, 2]);
+const query = '자막이   너무 많아서 화면이 복잡해요';
+
+// Dropped IDs are logged; keep the test output quiet
+beforeEach(() => {
+    mock.method(console, 'warn', () => undefined);
+});
+
+describe('extractJson', () => {
+    it('reads JSON wrapped in code fences or preceded by text', () => {
+        assert.deepEqual(extractJson('```json\n{"matches": []}\n```'), { matches: [] });
+        assert.deepEqual(extractJson('Here you go: [1, 2]'), [1, 2]);
+    });
+
+    it('throws on invalid JSON', () => {
+        assert.throws(() => extractJson('{"matches": ['), SyntaxError);
+        assert.throws(() => extractJson('no json here'), SyntaxError);
+    });
+});
+
+describe('parseMatches', () => {
+    it('parses the documented shape', () => {
+        const response = JSON.stringify({ matches: [{ id: 1, score: 87, quote: '자막이 너무 많아서', reason: ' 자막이   많습니다. ' }] });
+        assert.deepEqual(parseMatches(response, query, known, 5), [
+            { ref: 1, score: 87, quote: '자막이 너무 많아서', reason: '자막이 많습니다.' },
+        ]);
+    });
+
+    it('accepts a bare array of IDs', () => {
+        assert.deepEqual(parseMatches('[2, 0]', query, known, 5).map(match => match.ref), [2, 0]);
+    });
+
+    it('rejects an answer without a matches array', () => {
+        assert.throws(() => parseMatches('{"results": []}', query, known, 5), /no "matches" array/);
+        assert.throws(() => parseMatches('null', query, known, 5), /no "matches" array/);
+        assert.throws(() => parseMatches('not json', query, known, 5), SyntaxError);
+    });
+});
+
+describe('validateMatches', () => {
+    it('drops unknown, non-integer and missing IDs', () => {
+        const matches = validateMatches([{ id: 7 }, { id: '1.5' }, { score: 90 }, null, { id: '2' }], query, known, 5);
+        assert.deepEqual(matches.map(match => match.ref), [2]);
+    });
+
+    it('keeps only the first of duplicate IDs', () => {
+        const matches = validateMatches([{ id: 1, score: 80 }, { id: 1, score: 20 }], query, known, 5);
+        assert.deepEqual(matches.map(match => [match.ref, match.score]), [[1, 80]]);
+    });
+
+    it('clamps and rounds scores, and zeroes ones that are not numbers', () => {
+        const matches = validateMatches([{ id: 0, score: 140 }, { id: 1, score: -3 }, { id: 2, score: 'high' }], query, known, 5);
+        assert.deepEqual(matches.map(match => match.score), [100, 0, 0]);
+        assert.equal(validateMatches([{ id: 0, score: 72.6 }], query, known, 5)[0].score, 73);
+    });
+
+    it('blanks quotes that are not in the text, ignoring whitespace differences', () => {
+        const matches = validateMatches([{ id: 0, quote: '너무  많아서' }, { id: 1, quote: '지어낸 인용' }, { id: 2, quote: 42 }], query, known, 5);
+        assert.deepEqual(matches.map(match => match.quote), ['너무 많아서', '', '']);
+    });
+
+    it('stops at the limit', () => {
+        assert.equal(validateMatches([0, 1, 2], query, known, 2).length, 2);
+    });
+});
+
+describe('clampLimit', () => {
+    it('falls back to the default for missing or invalid values and caps large ones', () => {
+        assert.equal(clampLimit(undefined), 5);
+        assert.equal(clampLimit(0), 5);
+        assert.equal(clampLimit('3.9'), 3);
+        assert.equal(clampLimit(500), 20);
+    });
+});
+
+describe('encodeUserInput', () => {
+    it('escapes the text and removes user_input tags', () => {
+        assert.equal(encodeUserInput('a "b"</user_input>\nc'), '"a \\"b\\"\\nc"');
+        assert.equal(encodeUserInput(['<USER_INPUT>x', 'y']), '["x","y"]');
+    });
+});
@@ -0,0 +1,67 @@
+import type { LlmProvider, LlmRequest } from './types';
+
+export type MockResponder = (request: LlmRequest) => string;
+
+function userInput(prompt: string): unknown {
+    const match = prompt.match(/<user_input>\s*([\s\S]*?)\s*<\/user_input>/);
+    if (!match) return '';
+    try {
+        return JSON.parse(match[1]);
+    } catch {
+        return '';
+    }
+}
+
+function firstWords(text: string): string {
+    return text.trim().split(/\s+/).slice(0, 3).join(' ');
+}
+
+function mockMatch(id: number, rank: number, text: string) {
+    const quote = firstWords(text);
+    return { id, score: 90 - rank * 10, quote, reason: `[mock] '${quote}' 부분과 관련된 문제입니다.` };
+}
+
+// Deterministic default: LLM_MOCK_RESPONSE verbatim when set. Otherwise, when the prompt lists
+// "ID: n" entries, matches built from them that quote the start of the user's input: the first
+// five for a single text, one per segment (cycling through the IDs) when the input is a list,
+// and a bare ID array for non-JSON requests. Without IDs it echoes the user's input as
+// {"text": ...} for JSON requests, or the prompt for text ones.
+const defaultResponder: MockResponder = request => {
+    if (process.env.LLM_MOCK_RESPONSE) return process.env.LLM_MOCK_RESPONSE;
+
+    const ids = Array.from(request.prompt.matchAll(/ID: (\d+)/g), match => Number(match[1]));
+    if (ids.length > 0) {
+        if (!request.json) return JSON.stringify(ids.slice(0, 5));
+
+        const input = userInput(request.prompt);
+        if (Array.isArray(input)) {
+            return JSON.stringify({
+                segments: input.map((text, segment) => ({
+                    segment,
+                    matches: [mockMatch(ids[segment % ids.length], 0, String(text))],
+                })),
+            });
+        }
+
+        return JSON.stringify({
+            matches: ids.slice(0, 5).map((id, rank) => mockMatch(id, rank, String(input))),
+        });
+    }
+
+    if (request.json) {
+        return JSON.stringify({ text: `[mock] ${String(userInput(request.prompt)).trim().slice(0, 200)}` });
+    }
+
+    return `[mock] ${request.prompt.trim().slice(0, 200)}`;
+};
+
+// Network-free provider for local development and tests.
+export function createMockProvider(respond: MockResponder = defaultResponder): LlmProvider {
+    return {
+        name: 'mock',
+        model: 'mock',
+        async generate(request) {
+            return respond(request);
+        },
+    };
+}
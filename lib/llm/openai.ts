@@ -0,0 +1,46 @@
+import type { LlmProvider } from './types';
+
+type ChatCompletionResponse = {
+    choices?: { message?: { content?: string | null } }[];
+};
+
+// Any server that speaks the OpenAI chat completions API (OpenAI itself, vLLM, Ollama, LM Studio, ...).
+export function createOpenAiProvider(baseUrl: string, model: string, apiKey?: string): LlmProvider {
+    return {
+        name: 'openai',
+        model,
+        async generate(request, options = {}) {
+            const messages = [
+                ...(request.system ? [{ role: 'system', content: request.system }] : []),
+                { role: 'user', content: request.prompt },
+            ];
+
+            const response = await fetch(`${baseUrl}/chat/completions`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+                },
+                body: JSON.stringify({
+                    model,
+                    messages,
+                    temperature: 0,
+                    ...(request.json ? { response_format: { type: 'json_object' } } : {}),
+                }),
+                signal: options.signal,
+            });
+
+            if (!response.ok) {
+                const detail = await response.text().catch(() => '');
+                throw new Error(`OpenAI-compatible endpoint returned ${response.status}: ${detail.slice(0, 200)}`);
+            }
+
+            const body = (await response.json()) as ChatCompletionResponse;
+            const content = body.choices?.[0]?.message?.content;
+            if (typeof content !== 'string') {
+                throw new Error('OpenAI-compatible endpoint returned no message content');
+            }
+            return content;
+        },
+    };
+}
@@ -0,0 +1,64 @@
+import { getLlmConfig } from './config';
+import { createGeminiProvider } from './gemini';
+import { createMockProvider } from './mock';
+import { createOpenAiProvider } from './openai';
+import type { LlmConfig, LlmProvider } from './types';
+
+function sleep(ms: number) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Applies the configured timeout to every attempt and retries failures with exponential backoff.
+// A caller-side abort is never retried.
+export function withRetry(provider: LlmProvider, { timeoutMs, maxRetries, retryDelayMs }: Pick<LlmConfig, 'timeoutMs' | 'maxRetries' | 'retryDelayMs'>): LlmProvider {
+    return {
+        ...provider,
+        async generate(request, options = {}) {
+            let lastError: unknown;
+
+            for (let attempt = 0; attempt <= maxRetries; attempt++) {
+                const timeout = AbortSignal.timeout(timeoutMs);
+                const signal = options.signal ? AbortSignal.any([options.signal, timeout]) : timeout;
+
+                try {
+                    return await provider.generate(request, { signal });
+                } catch (error) {
+                    if (options.signal?.aborted) throw error;
+                    lastError = error;
+                    console.warn(`[LLM] ${provider.name} attempt ${attempt + 1}/${maxRetries + 1} failed:`, error instanceof Error ? error.message : error);
+                    if (attempt < maxRetries) await sleep(retryDelayMs * 2 ** attempt);
+                }
+            }
+
+            throw lastError;
+        },
+    };
+}
+
+// Returns the configured provider, or null when it is missing credentials
+// (callers answer 503 so the page can fall back to local search).
+export function getLlmProvider(config: LlmConfig = getLlmConfig()): LlmProvider | null {
+    let provider: LlmProvider;
+
+    switch (config.provider) {
+        case 'gemini':
+            if (!config.gemini.apiKey) {
+                console.error('[LLM] GEMINI_API_KEY is missing in process.env');
+                return null;
+            }
+            provider = createGeminiProvider(config.gemini.apiKey, config.model);
+            break;
+        case 'openai':
+            provider = createOpenAiProvider(config.openai.baseUrl, config.model, config.openai.apiKey);
+            break;
+        case 'mock':
+            provider = createMockProvider();
+            break;
+    }
+
+    return withRetry(provider, config);
+}
+
+export function describeProvider(provider: LlmProvider): string {
+    return `${provider.name}:${provider.model}`;
+}
@@ -0,0 +1,59 @@
+import { getFeedback } from '../feedback/cache';
+import type { FeedbackItem } from '../feedback/types';
+import { selectCandidates } from '../semantic/server';
+import { buildMatchPrompt, MATCH_SYSTEM_PROMPT, parseMatches, type AiMatch } from './matching';
+import { describeProvider } from './provider';
+import type { LlmProvider } from './types';
+
+// An entry plus the model's explanation of why it matched
+export type AiSearchResult = FeedbackItem & Omit<AiMatch, 'ref'>;
+
+export type AiSearch = {
+    source: string;
+    results: AiSearchResult[];
+};
+
+// LLM-reranked search, shared by /api/ai-search and the chat command: the semantic index picks the
+// candidates, the model picks and explains the best `limit` of them.
+export async function aiSearch(provider: LlmProvider, query: string, limit: number): Promise<AiSearch> {
+    // 1. Fetch Data
+    console.log('[AI-SEARCH] Loading feedback data...');
+    const { items, source, etag } = await getFeedback();
+    const data = items.map((item, ref) => ({ ref, category: item.category, problem: item.problem }));
+
+    console.log(`[AI-SEARCH] Loaded ${data.length} feedback items from ${source}.`);
+
+    const candidates = await selectCandidates(query, data, etag);
+    console.log(`[AI-SEARCH] Reranking ${candidates.length} candidates.`);
+
+    // 2. Prepare Prompt for the LLM
+    // To save tokens, we only send IDs, categories and problems of the candidates.
+    const prompt = buildMatchPrompt(query, candidates, limit);
+
+    console.log(`[AI-SEARCH] Sending prompt to ${describeProvider(provider)}...`);
+
+    const responseText = await provider.generate({ system: MATCH_SYSTEM_PROMPT, prompt, json: true });
+
+    console.log("[AI-SEARCH] Raw LLM Response:", responseText);
+
+    // 3. Parse and validate LLM Response
+    let matches: AiMatch[];
+    try {
+        matches = parseMatches(responseText, query, new Set(candidates.map(item => item.ref)), limit);
+        console.log(`[AI-SEARCH] Parsed matches: ${JSON.stringify(matches.map(match => items[match.ref].id))}`);
+    } catch (e) {
+        console.error("[AI-SEARCH] JSON Parse Error. Raw text was:", responseText, e);
+        throw new Error("Failed to parse AI response");
+    }
+
+    // 4. Sorted entries with the explanation of each match
+    return {
+        source,
+        results: matches.map(({ ref, score, quote, reason }) => ({
+            ...items[ref],
+            score,
+            quote,
+            reason,
+        })),
+    };
+}
@@ -0,0 +1,28 @@
+export type LlmProviderName = 'gemini' | 'openai' | 'mock';
+
+export type LlmRequest = {
+    prompt: string;
+    system?: string;
+    // Ask the backend to answer with a JSON document instead of free text.
+    json?: boolean;
+};
+
+export type LlmCallOptions = {
+    signal?: AbortSignal;
+};
+
+export interface LlmProvider {
+    name: LlmProviderName;
+    model: string;
+    generate(request: LlmRequest, options?: LlmCallOptions): Promise<string>;
+}
+
+export type LlmConfig = {
+    provider: LlmProviderName;
+    model: string;
+    timeoutMs: number;
+    maxRetries: number;
+    retryDelayMs: number;
+    gemini: { apiKey?: string };
+    openai: { baseUrl: string; apiKey?: string };
+};
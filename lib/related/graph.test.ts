@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { coOccurrenceCounts, rankRelated, type RelatedSignals } from './graph';
+
+const noSignals = (): RelatedSignals => ({ curated: new Map(), coOccurrence: new Map() });
+
+describe('coOccurrenceCounts', () => {
+    it('counts each pair in both directions', () => {
+        const counts = coOccurrenceCounts([['a', 'b', 'c'], ['a', 'b']]);
+        assert.equal(counts.get('a')?.get('b'), 2);
+        assert.equal(counts.get('b')?.get('a'), 2);
+        assert.equal(counts.get('a')?.get('c'), 1);
+        assert.equal(counts.get('c')?.get('b'), 1);
+    });
+
+    it('ignores repeated IDs within one search', () => {
+        const counts = coOccurrenceCounts([['a', 'a', 'b']]);
+        assert.equal(counts.get('a')?.get('b'), 1);
+        assert.equal(counts.get('a')?.has('a'), false);
+    });
+
+    it('has no pairs for single results', () => {
+        assert.equal(coOccurrenceCounts([['a'], []]).size, 0);
+    });
+});
+
+describe('rankRelated', () => {
+    const similarities = new Map([['self', 1], ['close', 0.9], ['mid', 0.7], ['far', 0.1], ['farther', 0.1]]);
+
+    it('ranks by similarity and never links an entry to itself', () => {
+        const links = rankRelated('self', similarities, noSignals(), 5);
+        assert.deepEqual(links.map(link => link.id), ['close', 'mid']);
+        assert.deepEqual(links[0].reasons, ['similar']);
+    });
+
+    it('lists curated links first, even when they score low', () => {
+        const signals = noSignals();
+        signals.curated.set('self', new Set(['far']));
+        const links = rankRelated('self', similarities, signals, 5);
+        assert.equal(links[0].id, 'far');
+        assert.deepEqual(links[0].reasons, ['curated']);
+    });
+
+    it('keeps every curated link beyond the limit', () => {
+        const signals = noSignals();
+        signals.curated.set('self', new Set(['far', 'farther']));
+        const links = rankRelated('self', similarities, signals, 1);
+        assert.deepEqual(links.map(link => link.id).sort(), ['far', 'farther']);
+    });
+
+    it('lifts entries that are often returned together', () => {
+        const signals = noSignals();
+        signals.coOccurrence = coOccurrenceCounts(Array.from({ length: 5 }, () => ['self', 'far']));
+        const links = rankRelated('self', similarities, signals, 5);
+        const far = links.find(link => link.id === 'far');
+        assert.ok(far, 'co-occurring entry is listed');
+        assert.deepEqual(far.reasons, ['co-occurrence']);
+    });
+
+    it('leaves out weak computed links', () => {
+        const signals = noSignals();
+        signals.coOccurrence = coOccurrenceCounts([['self', 'far']]);
+        const links = rankRelated('self', similarities, signals, 5);
+        assert.equal(links.some(link => link.id === 'far'), false);
+    });
+});
@@ -0,0 +1,110 @@
+import type { FeedbackItem } from '@/lib/feedback/types';
+
+// "See also" links between entries, from three signals:
+//   curated        the entry's 관련 column (both directions: if A lists B, B shows A too)
+//   similar        cosine similarity of the entries' vectors (see lib/semantic)
+//   co-occurrence  how often two entries were returned by the same AI search
+
+export type RelatedReason = 'curated' | 'similar' | 'co-occurrence';
+
+export type RelatedLink = {
+    id: string;
+    score: number;
+    reasons: RelatedReason[];
+};
+
+export type RelatedSignals = {
+    curated: Map<string, Set<string>>;
+    coOccurrence: Map<string, Map<string, number>>;
+};
+
+const SIMILARITY_WEIGHT = 0.7;
+const CO_OCCURRENCE_WEIGHT = 0.3;
+// Appearing together this many times counts as fully co-occurring
+const CO_OCCURRENCE_SATURATION = 5;
+// Computed links scoring below this are left out; curated links are always kept
+const MIN_SCORE = 0.25;
+// Relative similarity (see relativeSimilarities) needed to list "similar" as a reason
+const MIN_SIMILARITY = 0.5;
+
+function link(map: Map<string, Set<string>>, a: string, b: string): void {
+    if (!map.has(a)) map.set(a, new Set());
+    map.get(a)!.add(b);
+}
+
+export function curatedLinks(items: FeedbackItem[]): Map<string, Set<string>> {
+    const ids = new Set(items.map(item => item.id));
+    const links = new Map<string, Set<string>>();
+    for (const item of items) {
+        for (const other of item.related ?? []) {
+            if (other === item.id || !ids.has(other)) continue;
+            link(links, item.id, other);
+            link(links, other, item.id);
+        }
+    }
+    return links;
+}
+
+// Pair counts over lists of entry IDs that were shown together (one list per AI search).
+export function coOccurrenceCounts(resultLists: string[][]): Map<string, Map<string, number>> {
+    const counts = new Map<string, Map<string, number>>();
+    const add = (a: string, b: string) => {
+        if (!counts.has(a)) counts.set(a, new Map());
+        const row = counts.get(a)!;
+        row.set(b, (row.get(b) ?? 0) + 1);
+    };
+
+    for (const list of resultLists) {
+        const unique = [...new Set(list)];
+        for (let i = 0; i < unique.length; i++) {
+            for (let j = i + 1; j < unique.length; j++) {
+                add(unique[i], unique[j]);
+                add(unique[j], unique[i]);
+            }
+        }
+    }
+    return counts;
+}
+
+// Raw cosine scores aren't comparable between embedders (hash vectors rarely go above 0.4, API embeddings
+// rarely below 0.5), so each entry's scores are rescaled: its average neighbour is 0, its closest one 1.
+function relativeSimilarities(similarities: Map<string, number>): Map<string, number> {
+    const values = [...similarities.values()];
+    if (values.length === 0) return similarities;
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    const max = Math.max(...values);
+    const range = max - mean || 1;
+    return new Map([...similarities].map(([id, value]) => [id, Math.max(0, (value - mean) / range)]));
+}
+
+// Curated links first (in score order among themselves), then the best computed ones.
+// `similarities` holds the cosine similarity of every other entry to `id`.
+export function rankRelated(id: string, similarities: Map<string, number>, signals: RelatedSignals, limit: number): RelatedLink[] {
+    const others = new Map([...similarities].filter(([other]) => other !== id));
+    const relative = relativeSimilarities(others);
+    const curated = signals.curated.get(id) ?? new Set<string>();
+    const together = signals.coOccurrence.get(id) ?? new Map<string, number>();
+    const candidates = new Set([...curated, ...together.keys(), ...others.keys()]);
+    candidates.delete(id);
+
+    const links: RelatedLink[] = [];
+    for (const other of candidates) {
+        const similarity = relative.get(other) ?? 0;
+        const count = together.get(other) ?? 0;
+        const score = SIMILARITY_WEIGHT * similarity
+            + CO_OCCURRENCE_WEIGHT * Math.min(1, count / CO_OCCURRENCE_SATURATION);
+        const isCurated = curated.has(other);
+        if (!isCurated && score < MIN_SCORE) continue;
+
+        const reasons: RelatedReason[] = [];
+        if (isCurated) reasons.push('curated');
+        if (similarity >= MIN_SIMILARITY) reasons.push('similar');
+        if (count > 0) reasons.push('co-occurrence');
+        links.push({ id: other, score: Math.round(score * 1000) / 1000, reasons });
+    }
+
+    const isCurated = (entry: RelatedLink) => Number(entry.reasons.includes('curated'));
+    return links
+        .sort((a, b) => isCurated(b) - isCurated(a) || b.score - a.score)
+        .slice(0, Math.max(limit, curated.size));
+}
@@ -0,0 +1,61 @@
+import { readEvents } from '@/lib/analytics/store';
+import type { FeedbackItem } from '@/lib/feedback/types';
+import { getVectorIndex } from '@/lib/semantic/server';
+import { coOccurrenceCounts, curatedLinks, rankRelated, type RelatedLink } from './graph';
+
+export const DEFAULT_RELATED_LIMIT = 5;
+
+// AI searches from this far back count towards co-occurrence
+const CO_OCCURRENCE_WINDOW_DAYS = 90;
+// The analytics log is re-read at most this often
+const CO_OCCURRENCE_TTL_MS = 10 * 60 * 1000;
+
+let curated: { etag: string; links: Map<string, Set<string>> } | null = null;
+let coOccurrence: { loadedAt: number; counts: Map<string, Map<string, number>> } | null = null;
+
+async function getCoOccurrence(): Promise<Map<string, Map<string, number>>> {
+    if (coOccurrence && Date.now() - coOccurrence.loadedAt < CO_OCCURRENCE_TTL_MS) return coOccurrence.counts;
+
+    let counts = new Map<string, Map<string, number>>();
+    try {
+        const since = new Date(Date.now() - CO_OCCURRENCE_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+        // Only searches the server recorded itself: anything from the public ingest endpoint could be forged
+        const searches = (await readEvents(since))
+            .flatMap(event => (event.type === 'ai-search' && event.origin === 'server' ? [event.resultIds] : []));
+        counts = coOccurrenceCounts(searches);
+    } catch (error) {
+        // Related entries still work from curation and similarity alone
+        console.error('[RELATED] Could not read AI search history:', error);
+    }
+    coOccurrence = { loadedAt: Date.now(), counts };
+    return counts;
+}
+
+export type RelatedEntry = RelatedLink & { item: FeedbackItem };
+
+// Related entries for one entry, best first. Returns null when the entry doesn't exist.
+export async function getRelated(id: string, limit = DEFAULT_RELATED_LIMIT) {
+    const { feedback, index } = await getVectorIndex();
+    const doc = feedback.items.findIndex(item => item.id === id);
+    if (doc === -1) return null;
+
+    if (curated?.etag !== feedback.etag) {
+        curated = { etag: feedback.etag, links: curatedLinks(feedback.items) };
+    }
+
+    // Vectors are L2-normalized, so the dot product is the cosine similarity
+    const vector = index.vectors[doc];
+    const similarities = new Map(feedback.items.map((item, other) => [
+        item.id,
+        index.vectors[other].reduce((sum, value, i) => sum + value * (vector[i] ?? 0), 0),
+    ]));
+
+    const byId = new Map(feedback.items.map(item => [item.id, item]));
+    const links = rankRelated(id, similarities, { curated: curated.links, coOccurrence: await getCoOccurrence() }, limit);
+    const related: RelatedEntry[] = links.flatMap(link => {
+        const item = byId.get(link.id);
+        return item ? [{ ...link, item }] : [];
+    });
+
+    return { feedback, item: feedback.items[doc], related };
+}
@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { FeedbackItem } from '@/lib/feedback/types';
+import { buildSearchIndex, search } from './engine';
+
+function entry(id: string, category: string, problem: string, solution: string, tags: string[] = []): FeedbackItem {
+    return { id, category, problem, solutions: [{ label: '버전1', text: solution }], tags };
+}
+
+const ids = (hits: { item: FeedbackItem }[]) => hits.map(hit => hit.item.id);
+
+describe('search', () => {
+    it('matches Korean queries regardless of particles', () => {
+        const index = buildSearchIndex([
+            entry('subs', '텍스트', '자막이 너무 많습니다', '핵심만 남기세요'),
+            entry('hook', '초반3초', '도입부가 깁니다', '바로 본론으로'),
+        ]);
+        const [hit, ...rest] = search(index, '자막을');
+        assert.equal(hit.item.id, 'subs');
+        assert.deepEqual(hit.terms, ['자막']);
+        assert.equal(rest.length, 0);
+    });
+
+    it('weights a match in the problem above the same match in the solutions', () => {
+        // Mirror images of each other, so only the field the term is in differs
+        const index = buildSearchIndex([
+            entry('in-solution', '편집', '컷 전환이 느립니다', '자막 크기를 키우세요'),
+            entry('in-problem', '편집', '자막 크기를 키우세요', '컷 전환이 느립니다'),
+        ]);
+        assert.deepEqual(ids(search(index, '자막', { minRelativeScore: 0 })), ['in-problem', 'in-solution']);
+    });
+
+    it('weights a match in the tags above the same match in the solutions', () => {
+        const index = buildSearchIndex([
+            entry('in-solution', '편집', '화면이 어둡습니다', '자막'),
+            entry('in-tags', '편집', '화면이 어둡습니다', '', ['자막']),
+            entry('other', '편집', '화면이 어둡습니다', '', ['조명']),
+        ]);
+        assert.deepEqual(ids(search(index, '자막', { minRelativeScore: 0 })), ['in-tags', 'in-solution']);
+    });
+
+    it('filters by category, treating "All" as no filter', () => {
+        const index = buildSearchIndex([
+            entry('a', '텍스트', '자막이 많습니다', '줄이세요'),
+            entry('b', '편집', '자막 타이밍이 늦습니다', '맞추세요'),
+        ]);
+        assert.deepEqual(ids(search(index, '자막', { category: '편집' })), ['b']);
+        assert.deepEqual(ids(search(index, '자막', { category: 'All', minRelativeScore: 0 })).sort(), ['a', 'b']);
+    });
+
+    it('returns at most `limit` hits, best first', () => {
+        const index = buildSearchIndex(Array.from({ length: 5 }, (_, i) => entry(`e${i}`, '텍스트', `자막 문제 ${i}`, '해결')));
+        const hits = search(index, '자막', { limit: 2 });
+        assert.equal(hits.length, 2);
+        assert.ok(hits[0].score >= hits[1].score);
+    });
+
+    it('drops hits far below the best one', () => {
+        const index = buildSearchIndex([
+            entry('strong', '텍스트', '자막 자막 자막 크기', '자막을 키우세요'),
+            entry('weak', '편집', '컷 전환이 느리고 화면이 흔들리고 소리가 작습니다', '자막도 확인하세요'),
+        ]);
+        assert.deepEqual(ids(search(index, '자막', { minRelativeScore: 0.9 })), ['strong']);
+    });
+
+    it('finds nothing for a query without tokens', () => {
+        const index = buildSearchIndex([entry('a', '텍스트', '자막', '해결')]);
+        assert.deepEqual(search(index, '!!!'), []);
+    });
+});
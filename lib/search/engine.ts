@@ -0,0 +1,149 @@
+import type { FeedbackItem } from '@/lib/feedback/types';
+import { isFuzzyToken, tokenize } from './tokenize';
+
+// BM25F-style ranking over the text fields of a feedback entry.
+// Runs both on the server (/api/search) and in the browser (the standard filter in page.tsx),
+// so it must not depend on any Node APIs.
+
+export type SearchField = 'problem' | 'category' | 'tags' | 'solutions';
+
+export const FIELD_WEIGHTS: Record<SearchField, number> = {
+    problem: 3,
+    category: 2,
+    tags: 2,
+    solutions: 1,
+};
+
+const FIELDS = Object.keys(FIELD_WEIGHTS) as SearchField[];
+
+// All solution variants are searched as one field, and so are the subcategory and tags
+function fieldText(item: FeedbackItem, field: SearchField): string {
+    switch (field) {
+        case 'solutions':
+            return item.solutions.map(variant => variant.text).join('\n');
+        case 'tags':
+            return [item.subcategory ?? '', ...(item.tags ?? [])].join('\n');
+        default:
+            return item[field];
+    }
+}
+
+// Fuzzy trigram matches count for less than exact tokens.
+const FUZZY_WEIGHT = 0.3;
+const K1 = 1.2;
+const B = 0.75;
+
+type Posting = {
+    doc: number;
+    // Term frequency per field, in FIELDS order
+    tf: number[];
+};
+
+export type SearchIndex<T extends FeedbackItem = FeedbackItem> = {
+    items: T[];
+    postings: Map<string, Posting[]>;
+    // Token count per document per field, in FIELDS order
+    lengths: number[][];
+    avgLengths: number[];
+};
+
+export type SearchHit<T extends FeedbackItem = FeedbackItem> = {
+    item: T;
+    score: number;
+    // Query terms (surface form) that matched this entry, for highlighting
+    terms: string[];
+};
+
+export type SearchOptions = {
+    category?: string;
+    limit?: number;
+    // Hits scoring below this fraction of the best hit are dropped.
+    minRelativeScore?: number;
+};
+
+export function buildSearchIndex<T extends FeedbackItem>(items: T[]): SearchIndex<T> {
+    const postings = new Map<string, Posting[]>();
+    const lengths: number[][] = [];
+    const totals = FIELDS.map(() => 0);
+
+    items.forEach((item, doc) => {
+        const counts = new Map<string, number[]>();
+        const docLengths = FIELDS.map((field, f) => {
+            const tokens = tokenize(fieldText(item, field));
+            for (const token of tokens) {
+                let tf = counts.get(token);
+                if (!tf) {
+                    tf = FIELDS.map(() => 0);
+                    counts.set(token, tf);
+                }
+                tf[f]++;
+            }
+            totals[f] += tokens.length;
+            return tokens.length;
+        });
+
+        lengths.push(docLengths);
+        for (const [token, tf] of counts) {
+            let list = postings.get(token);
+            if (!list) {
+                list = [];
+                postings.set(token, list);
+            }
+            list.push({ doc, tf });
+        }
+    });
+
+    const avgLengths = totals.map(total => (items.length ? total / items.length : 0) || 1);
+    return { items, postings, lengths, avgLengths };
+}
+
+function idf(index: SearchIndex<FeedbackItem>, documentFrequency: number): number {
+    const n = index.items.length;
+    return Math.log(1 + (n - documentFrequency + 0.5) / (documentFrequency + 0.5));
+}
+
+export function search<T extends FeedbackItem>(index: SearchIndex<T>, query: string, options: SearchOptions = {}): SearchHit<T>[] {
+    const { category, limit, minRelativeScore = 0.2 } = options;
+    const queryTokens = Array.from(new Set(tokenize(query)));
+    if (queryTokens.length === 0) return [];
+
+    const scores = new Map<number, { score: number; terms: Set<string> }>();
+
+    for (const token of queryTokens) {
+        const list = index.postings.get(token);
+        if (!list) continue;
+
+        const tokenIdf = idf(index, list.length) * (isFuzzyToken(token) ? FUZZY_WEIGHT : 1);
+
+        for (const { doc, tf } of list) {
+            let weightedTf = 0;
+            FIELDS.forEach((field, f) => {
+                if (!tf[f]) return;
+                const norm = 1 - B + B * (index.lengths[doc][f] / index.avgLengths[f]);
+                weightedTf += (FIELD_WEIGHTS[field] * tf[f]) / norm;
+            });
+
+            const entry = scores.get(doc) ?? { score: 0, terms: new Set<string>() };
+            entry.score += tokenIdf * ((weightedTf * (K1 + 1)) / (weightedTf + K1));
+            if (!isFuzzyToken(token)) entry.terms.add(token);
+            scores.set(doc, entry);
+        }
+    }
+
+    let hits = Array.from(scores, ([doc, { score, terms }]) => ({
+        item: index.items[doc],
+        score,
+        terms: Array.from(terms),
+    }));
+
+    if (category && category !== 'All') {
+        hits = hits.filter(hit => hit.item.category === category);
+    }
+
+    hits.sort((a, b) => b.score - a.score);
+
+    const best = hits[0]?.score ?? 0;
+    hits = hits.filter(hit => hit.score >= best * minRelativeScore);
+
+    return limit ? hits.slice(0, limit) : hits;
+}
@@ -0,0 +1,87 @@
+import type { FeedbackItem } from '@/lib/feedback/types';
+import { severityRank, type Severity } from '@/lib/feedback/taxonomy';
+
+// Faceted filtering for the page: several values can be selected per facet (any of them matches),
+// and facets combine with each other (all of them must match). Client-safe.
+
+export type FacetName = 'categories' | 'subcategories' | 'tags' | 'severities';
+
+export type FacetSelection = Record<FacetName, string[]>;
+
+export type FacetValue = {
+    value: string;
+    count: number;
+};
+
+export const FACETS: FacetName[] = ['categories', 'subcategories', 'tags', 'severities'];
+
+export const EMPTY_FACETS: FacetSelection = { categories: [], subcategories: [], tags: [], severities: [] };
+
+// Query string names, used by the page's URL and the read API alike (each may repeat, e.g. ?category=텍스트&category=브랜딩)
+export const FACET_PARAMS: Record<FacetName, string> = {
+    categories: 'category',
+    subcategories: 'sub',
+    tags: 'tag',
+    severities: 'severity',
+};
+
+function facetValues(item: FeedbackItem, facet: FacetName): string[] {
+    switch (facet) {
+        case 'categories':
+            return [item.category];
+        case 'subcategories':
+            return item.subcategory ? [item.subcategory] : [];
+        case 'tags':
+            return item.tags ?? [];
+        case 'severities':
+            return item.severity ? [item.severity] : [];
+    }
+}
+
+// `except` leaves one facet out, which is what that facet's own counts are based on.
+export function matchesFacets(item: FeedbackItem, selection: FacetSelection, except?: FacetName): boolean {
+    return FACETS.every(facet => {
+        const selected = selection[facet];
+        if (facet === except || selected.length === 0) return true;
+        return facetValues(item, facet).some(value => selected.includes(value));
+    });
+}
+
+export function isFacetSelectionEmpty(selection: FacetSelection): boolean {
+    return FACETS.every(facet => selection[facet].length === 0);
+}
+
+function orderValues(facet: FacetName, counts: Map<string, number>): FacetValue[] {
+    const values = Array.from(counts, ([value, count]) => ({ value, count }));
+    switch (facet) {
+        case 'severities':
+            return values.sort((a, b) => severityRank(a.value as Severity) - severityRank(b.value as Severity));
+        case 'tags':
+            return values.sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+        default:
+            // Categories and subcategories keep the sheet's order
+            return values;
+    }
+}
+
+// How many of `items` each value would show, given the other facets' selection.
+// `items` is usually the text search result, so counts follow the query. Selected values are always
+// listed, with 0 if nothing matches any more, so they can be unselected.
+export function facetCounts(items: FeedbackItem[], selection: FacetSelection): Record<FacetName, FacetValue[]> {
+    const result = {} as Record<FacetName, FacetValue[]>;
+    for (const facet of FACETS) {
+        const counts = new Map<string, number>();
+        for (const item of items) {
+            if (!matchesFacets(item, selection, facet)) continue;
+            for (const value of facetValues(item, facet)) counts.set(value, (counts.get(value) ?? 0) + 1);
+        }
+        for (const value of selection[facet]) if (!counts.has(value)) counts.set(value, 0);
+        result[facet] = orderValues(facet, counts);
+    }
+    return result;
+}
+
+// Most severe first; stable, so ties keep their relevance or sheet order.
+export function sortBySeverity<T extends FeedbackItem>(items: T[]): T[] {
+    return [...items].sort((a, b) => severityRank(a.severity) - severityRank(b.severity));
+}
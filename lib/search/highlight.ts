@@ -0,0 +1,41 @@
+import { normalize, tokenize, isFuzzyToken } from './tokenize';
+
+export type HighlightSegment = {
+    text: string;
+    match: boolean;
+};
+
+// Terms worth highlighting for a query: exact tokens only, never fuzzy trigrams.
+export function highlightTerms(query: string): string[] {
+    return Array.from(new Set(tokenize(query).filter(token => !isFuzzyToken(token))));
+}
+
+// Splits text into matched/unmatched segments. Overlapping matches (e.g. the bigrams
+// "주제" and "제가" inside "주제가") are merged into one highlighted span.
+export function highlightSegments(text: string, terms: string[]): HighlightSegment[] {
+    if (!text || terms.length === 0) return [{ text, match: false }];
+
+    const haystack = normalize(text);
+    // NFKC can change string length (e.g. full-width forms); skip highlighting rather than misalign.
+    if (haystack.length !== text.length) return [{ text, match: false }];
+
+    const marked = new Array<boolean>(text.length).fill(false);
+    for (const term of terms) {
+        let from = haystack.indexOf(term);
+        while (from !== -1) {
+            marked.fill(true, from, from + term.length);
+            from = haystack.indexOf(term, from + 1);
+        }
+    }
+
+    const segments: HighlightSegment[] = [];
+    for (let i = 0; i < text.length; i++) {
+        const last = segments[segments.length - 1];
+        if (last && last.match === marked[i]) {
+            last.text += text[i];
+        } else {
+            segments.push({ text: text[i], match: marked[i] });
+        }
+    }
+    return segments;
+}
@@ -0,0 +1,16 @@
+import { getFeedback } from '@/lib/feedback/cache';
+import type { FeedbackItem } from '@/lib/feedback/types';
+import { buildSearchIndex, type SearchIndex } from './engine';
+
+let cachedIndex: { etag: string; index: SearchIndex<FeedbackItem> } | null = null;
+
+// Returns the search index for the current feedback list, rebuilding it only when the data changes.
+export async function getSearchIndex() {
+    const feedback = await getFeedback();
+
+    if (cachedIndex?.etag !== feedback.etag) {
+        cachedIndex = { etag: feedback.etag, index: buildSearchIndex(feedback.items) };
+    }
+
+    return { feedback, index: cachedIndex.index };
+}
@@ -0,0 +1,37 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { FUZZY_PREFIX, isFuzzyToken, tokenize } from './tokenize';
+
+describe('tokenize', () => {
+    it('splits Hangul words into character bigrams', () => {
+        assert.deepEqual(tokenize('많아요'), ['많아', '아요']);
+        assert.deepEqual(tokenize('자막 크기'), ['자막', '크기']);
+    });
+
+    it('strips a trailing particle before splitting, longest first', () => {
+        assert.deepEqual(tokenize('자막이'), ['자막']);
+        assert.deepEqual(tokenize('영상에서'), ['영상']);
+        // Too short to lose a particle: "이가" is a word of its own
+        assert.deepEqual(tokenize('이가'), ['이가']);
+    });
+
+    it('keeps a single Hangul character whole', () => {
+        assert.deepEqual(tokenize('꼭'), ['꼭']);
+    });
+
+    it('keeps other words whole and adds fuzzy trigrams for long ones', () => {
+        assert.deepEqual(tokenize('CTA'), ['cta']);
+        assert.deepEqual(tokenize('hook'), ['hook', `${FUZZY_PREFIX}hoo`, `${FUZZY_PREFIX}ook`]);
+        assert.ok(tokenize('hook').slice(1).every(isFuzzyToken));
+    });
+
+    it('splits mixed words at the script boundary and normalizes width and case', () => {
+        assert.deepEqual(tokenize('CTA버튼'), ['cta', '버튼']);
+        assert.deepEqual(tokenize('ＣＴＡ'), ['cta']);
+    });
+
+    it('ignores punctuation', () => {
+        assert.deepEqual(tokenize('자막, 너무!'), ['자막', '너무']);
+        assert.deepEqual(tokenize('...'), []);
+    });
+});
@@ -0,0 +1,63 @@
+// Tokenizer shared by the local search index and the result highlighter.
+// Hangul words are split into character bigrams so that particles (은/는/이/가 ...)
+// and spacing differences don't prevent a match; other words are kept whole and,
+// when long enough, also indexed as character trigrams for basic typo tolerance.
+
+const HANGUL_RUN = /[가-힣]+|[^가-힣]+/g;
+const HANGUL_START = /^[가-힣]/;
+const WORD = /[\p{L}\p{N}]+/gu;
+
+// Longest first, so "에서" wins over "서".
+const PARTICLES = ['에서', '으로', '에게', '까지', '부터', '처럼', '보다', '은', '는', '이', '가', '을', '를', '에', '의', '도', '로', '와', '과'];
+
+// Prefix for fuzzy trigram tokens so they never collide with a real word.
+export const FUZZY_PREFIX = '~';
+
+export function normalize(text: string): string {
+    return text.normalize('NFKC').toLowerCase();
+}
+
+function stripParticle(run: string): string {
+    if (run.length < 3) return run;
+    for (const particle of PARTICLES) {
+        if (run.endsWith(particle) && run.length - particle.length >= 2) {
+            return run.slice(0, -particle.length);
+        }
+    }
+    return run;
+}
+
+function hangulTokens(run: string): string[] {
+    const stem = stripParticle(run);
+    if (stem.length === 1) return [stem];
+
+    const tokens: string[] = [];
+    for (let i = 0; i < stem.length - 1; i++) {
+        tokens.push(stem.slice(i, i + 2));
+    }
+    return tokens;
+}
+
+function wordTokens(run: string): string[] {
+    const tokens = [run];
+    if (run.length >= 4) {
+        for (let i = 0; i < run.length - 2; i++) {
+            tokens.push(FUZZY_PREFIX + run.slice(i, i + 3));
+        }
+    }
+    return tokens;
+}
+
+export function tokenize(text: string): string[] {
+    const tokens: string[] = [];
+    for (const word of normalize(text).match(WORD) ?? []) {
+        for (const run of word.match(HANGUL_RUN) ?? []) {
+            tokens.push(...(HANGUL_START.test(run) ? hangulTokens(run) : wordTokens(run)));
+        }
+    }
+    return tokens;
+}
+
+export function isFuzzyToken(token: string): boolean {
+    return token.startsWith(FUZZY_PREFIX);
+}
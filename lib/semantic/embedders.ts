@@ -0,0 +1,128 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { getLlmConfig } from '@/lib/llm/config';
+import { tokenize } from '@/lib/search/tokenize';
+
+export type EmbedderName = 'hash' | 'gemini' | 'openai';
+
+export interface Embedder {
+    // Identifies the vector space; indexes built by a different embedder are never reused.
+    id: string;
+    embed(texts: string[]): Promise<number[][]>;
+}
+
+const HASH_DIMENSIONS = 512;
+const REMOTE_BATCH_SIZE = 100;
+
+export function normalizeVector(vector: number[]): number[] {
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm ? vector.map(value => value / norm) : vector;
+}
+
+// FNV-1a, 32 bit
+function hashToken(token: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < token.length; i++) {
+        hash ^= token.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+// Dependency-free fallback: the search tokens (Hangul bigrams, words, trigrams) hashed into
+// a fixed number of buckets with a random sign, sublinear tf weighting and L2 normalization.
+export function createHashEmbedder(dimensions = HASH_DIMENSIONS): Embedder {
+    return {
+        id: `hash:${dimensions}`,
+        async embed(texts) {
+            return texts.map(text => {
+                const vector = new Array<number>(dimensions).fill(0);
+                const counts = new Map<string, number>();
+                for (const token of tokenize(text)) {
+                    counts.set(token, (counts.get(token) ?? 0) + 1);
+                }
+                for (const [token, count] of counts) {
+                    const hash = hashToken(token);
+                    const sign = hash & 0x80000000 ? -1 : 1;
+                    vector[hash % dimensions] += sign * (1 + Math.log(count));
+                }
+                return normalizeVector(vector);
+            });
+        },
+    };
+}
+
+async function inBatches(texts: string[], embedBatch: (batch: string[]) => Promise<number[][]>): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += REMOTE_BATCH_SIZE) {
+        vectors.push(...(await embedBatch(texts.slice(i, i + REMOTE_BATCH_SIZE))));
+    }
+    return vectors.map(normalizeVector);
+}
+
+export function createGeminiEmbedder(apiKey: string, model: string): Embedder {
+    const embeddingModel = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model });
+    return {
+        id: `gemini:${model}`,
+        embed(texts) {
+            return inBatches(texts, async batch => {
+                const result = await embeddingModel.batchEmbedContents({
+                    requests: batch.map(text => ({ content: { role: 'user', parts: [{ text }] } })),
+                });
+                return result.embeddings.map(embedding => embedding.values);
+            });
+        },
+    };
+}
+
+type EmbeddingsResponse = {
+    data?: { embedding: number[]; index: number }[];
+};
+
+export function createOpenAiEmbedder(baseUrl: string, model: string, apiKey?: string): Embedder {
+    return {
+        id: `openai:${model}`,
+        embed(texts) {
+            return inBatches(texts, async batch => {
+                const response = await fetch(`${baseUrl}/embeddings`, {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+                    },
+                    body: JSON.stringify({ model, input: batch }),
+                });
+                if (!response.ok) {
+                    throw new Error(`Embeddings endpoint returned ${response.status}`);
+                }
+                const body = (await response.json()) as EmbeddingsResponse;
+                if (!body.data || body.data.length !== batch.length) {
+                    throw new Error('Embeddings endpoint returned an unexpected number of vectors');
+                }
+                return [...body.data].sort((a, b) => a.index - b.index).map(entry => entry.embedding);
+            });
+        },
+    };
+}
+
+// EMBEDDING_PROVIDER selects the embedder (default "hash", which needs no network).
+// Remote embedders reuse the credentials of the LLM configuration.
+export function getEmbedder(): Embedder {
+    const name = (process.env.EMBEDDING_PROVIDER?.trim().toLowerCase() || 'hash') as EmbedderName;
+    const model = process.env.EMBEDDING_MODEL?.trim();
+    const config = getLlmConfig();
+
+    switch (name) {
+        case 'hash':
+            return createHashEmbedder();
+        case 'gemini':
+            if (!config.gemini.apiKey) {
+                console.warn('[SEMANTIC] GEMINI_API_KEY is missing, using the local hash embedder');
+                return createHashEmbedder();
+            }
+            return createGeminiEmbedder(config.gemini.apiKey, model || 'text-embedding-004');
+        case 'openai':
+            return createOpenAiEmbedder(config.openai.baseUrl, model || 'text-embedding-3-small', config.openai.apiKey);
+        default:
+            throw new Error(`Unknown EMBEDDING_PROVIDER "${name}" (expected hash, gemini or openai)`);
+    }
+}
@@ -0,0 +1,120 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { getFeedback, type CachedFeedback } from '@/lib/feedback/cache';
+import type { FeedbackItem } from '@/lib/feedback/types';
+import { createHashEmbedder, getEmbedder, type Embedder } from './embedders';
+import { buildVectorIndex, cosineTopK, type VectorIndex } from './vector-index';
+
+export type SemanticHit = {
+    // Position of the entry in the feedback list
+    doc: number;
+    item: FeedbackItem;
+    score: number;
+};
+
+// Vectors are persisted so entries are embedded once, not on every cold start.
+function indexPath(): string {
+    return path.resolve(process.cwd(), process.env.VECTOR_INDEX_PATH || '.cache/vector-index.json');
+}
+
+// An index together with the feedback snapshot it was built from: document numbers are positions in that list.
+type BuiltIndex = { feedback: CachedFeedback; index: VectorIndex; embedder: Embedder };
+
+let current: BuiltIndex | null = null;
+// Keyed by etag so a build for an older list is never handed out once the data has changed
+let building: { etag: string; promise: Promise<BuiltIndex> } | null = null;
+
+async function readPersistedIndex(etag: string, embedderId: string): Promise<VectorIndex | null> {
+    try {
+        const stored = JSON.parse(await readFile(indexPath(), 'utf8')) as VectorIndex;
+        return stored.etag === etag && stored.embedderId === embedderId ? stored : null;
+    } catch {
+        return null;
+    }
+}
+
+async function persistIndex(index: VectorIndex) {
+    try {
+        await mkdir(path.dirname(indexPath()), { recursive: true });
+        await writeFile(indexPath(), JSON.stringify(index));
+    } catch (error) {
+        // Read-only filesystems (e.g. serverless) just keep the index in memory
+        console.warn('[SEMANTIC] Could not persist vector index:', error instanceof Error ? error.message : error);
+    }
+}
+
+async function buildIndex(items: FeedbackItem[], etag: string) {
+    let embedder = getEmbedder();
+
+    const persisted = await readPersistedIndex(etag, embedder.id);
+    if (persisted) return { index: persisted, embedder };
+
+    let index: VectorIndex;
+    try {
+        index = await buildVectorIndex(items, embedder, etag);
+    } catch (error) {
+        console.error(`[SEMANTIC] Embedder ${embedder.id} failed, falling back to local hash vectors:`, error);
+        embedder = createHashEmbedder();
+        index = await buildVectorIndex(items, embedder, etag);
+    }
+
+    console.log(`[SEMANTIC] Built vector index for ${items.length} items with ${embedder.id}`);
+    await persistIndex(index);
+    return { index, embedder };
+}
+
+// Returns the vector index for the current feedback list, rebuilding it when the data changes.
+// Always use the returned `feedback`, not a separately fetched list: a reload may land while the index builds.
+export async function getVectorIndex(): Promise<BuiltIndex> {
+    const feedback = await getFeedback();
+    if (current?.feedback.etag === feedback.etag) return current;
+
+    if (building?.etag !== feedback.etag) {
+        const { etag } = feedback;
+        building = {
+            etag,
+            promise: buildIndex(feedback.items, etag)
+                .then(built => ({ feedback, ...built }))
+                .finally(() => {
+                    if (building?.etag === etag) building = null;
+                }),
+        };
+    }
+
+    current = await building.promise;
+    return current;
+}
+
+export async function semanticSearch(query: string, k: number) {
+    const { feedback, index, embedder } = await getVectorIndex();
+    const [queryVector] = await embedder.embed([query]);
+
+    const hits: SemanticHit[] = cosineTopK(index, queryVector, k).map(({ doc, score }) => ({
+        doc,
+        item: feedback.items[doc],
+        score,
+    }));
+
+    return { feedback, embedderId: embedder.id, hits };
+}
+
+// Only this many entries, preselected by the vector index, are sent to the LLM for reranking.
+const CANDIDATE_COUNT = Number(process.env.AI_SEARCH_CANDIDATES) || 30;
+
+// Narrows a list indexed like the feedback list with this etag down to the entries closest to the query.
+// Falls back to the full list when retrieval fails or the index was built from a different list.
+export async function selectCandidates<T>(query: string, data: T[], etag: string, count = CANDIDATE_COUNT): Promise<T[]> {
+    if (data.length <= count) return data;
+
+    try {
+        const { feedback, hits } = await semanticSearch(query, count);
+        if (feedback.etag !== etag) {
+            console.warn('[SEMANTIC] Feedback changed while the index was building, using the full list');
+            return data;
+        }
+        return hits.map(hit => data[hit.doc]).filter(Boolean);
+    } catch (error) {
+        console.error('[SEMANTIC] Candidate retrieval failed, using the full list:', error);
+        return data;
+    }
+}
@@ -0,0 +1,37 @@
+import type { FeedbackItem } from '@/lib/feedback/types';
+import { primarySolution } from '@/lib/feedback/variants';
+import type { Embedder } from './embedders';
+
+export type VectorIndex = {
+    embedderId: string;
+    // ETag of the feedback list the vectors were computed from
+    etag: string;
+    vectors: number[][];
+};
+
+export type VectorHit = {
+    doc: number;
+    score: number;
+};
+
+// The text embedded for each entry. Problems carry most of the meaning, the first
+// solution adds vocabulary that users tend to paste from their own drafts.
+export function entryText(item: FeedbackItem): string {
+    return [item.category, item.problem, primarySolution(item)].filter(Boolean).join('\n');
+}
+
+export async function buildVectorIndex(items: FeedbackItem[], embedder: Embedder, etag: string): Promise<VectorIndex> {
+    const vectors = await embedder.embed(items.map(entryText));
+    return { embedderId: embedder.id, etag, vectors };
+}
+
+// Vectors are L2-normalized by every embedder, so the dot product is the cosine similarity.
+export function cosineTopK(index: VectorIndex, queryVector: number[], k: number): VectorHit[] {
+    return index.vectors
+        .map((vector, doc) => ({
+            doc,
+            score: vector.reduce((sum, value, i) => sum + value * (queryVector[i] ?? 0), 0),
+        }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, k);
+}
@@ -0,0 +1,32 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { createJsonFileStore } from './json-file';
+
+describe('createJsonFileStore', () => {
+    let dir = '';
+    before(async () => {
+        dir = await mkdtemp(path.join(tmpdir(), 'json-file-'));
+    });
+    after(() => rm(dir, { recursive: true, force: true }));
+
+    it('returns a fresh empty value for each read of a missing file', async () => {
+        const store = createJsonFileStore(() => path.join(dir, 'missing.json'), () => ({ items: [] as string[] }));
+
+        (await store.read()).items.push('leak');
+        assert.deepEqual(await store.read(), { items: [] });
+    });
+
+    it('does not leak a mutation of one missing file into another', async () => {
+        let file = 'a.json';
+        const store = createJsonFileStore(() => path.join(dir, file), () => ({ items: [] as string[] }));
+
+        await store.mutate(data => data.items.push('a'));
+        file = 'b.json';
+        assert.deepEqual(await store.read(), { items: [] });
+        file = 'a.json';
+        assert.deepEqual(await store.read(), { items: ['a'] });
+    });
+});
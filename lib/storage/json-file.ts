@@ -0,0 +1,55 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+// Small JSON-file persistence shared by the server-side stores (editor, creators).
+
+export function resolveDataPath(filePath: string): string {
+    return path.isAbsolute(filePath) ? filePath : path.join(process.cwd(), filePath);
+}
+
+export async function readJsonFile<T>(filePath: string, fallback: T): Promise<T> {
+    try {
+        return { ...fallback, ...JSON.parse(await readFile(filePath, 'utf8')) };
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return fallback;
+        throw error;
+    }
+}
+
+// Written to a temp file first so a crash mid-write never leaves a truncated file behind.
+export async function writeJsonFile(filePath: string, data: unknown): Promise<void> {
+    await mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await writeFile(tempPath, JSON.stringify(data, null, 2));
+    await rename(tempPath, filePath);
+}
+
+export type JsonFileStore<T> = {
+    read(): Promise<T>;
+    // Read-modify-write. Calls are serialized so two requests saving at once can't overwrite each other.
+    mutate<R>(change: (data: T) => R): Promise<R>;
+};
+
+// `upgrade` brings data written by older versions up to the current shape; it runs on every read.
+export function createJsonFileStore<T extends object>(
+    getPath: () => string,
+    empty: () => T,
+    upgrade: (data: T) => T = data => data,
+): JsonFileStore<T> {
+    let queue: Promise<unknown> = Promise.resolve();
+
+    return {
+        read: async () => upgrade(await readJsonFile(getPath(), empty())),
+        mutate<R>(change: (data: T) => R): Promise<R> {
+            const run = queue.then(async () => {
+                const filePath = getPath();
+                const data = upgrade(await readJsonFile(filePath, empty()));
+                const result = change(data);
+                await writeJsonFile(filePath, data);
+                return result;
+            });
+            queue = run.catch(() => undefined);
+            return run;
+        },
+    };
+}
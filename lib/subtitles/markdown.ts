@@ -0,0 +1,39 @@
+import { primarySolution } from '../feedback/variants';
+import { formatTimestamp } from './parse';
+import type { SubtitleReport } from './report';
+
+// e.g. "AI (openai:gpt-4o-mini, 02:15부터 로컬 검색)" when a long file only partly fit in the prompt
+export function describeReportMode(report: SubtitleReport): string {
+    if (report.mode !== 'ai') return '로컬 검색';
+    const localEntry = report.localFrom === undefined ? undefined : report.entries[report.localFrom];
+    return localEntry ? `AI (${report.provider}, ${formatTimestamp(localEntry.start)}부터 로컬 검색)` : `AI (${report.provider})`;
+}
+
+// Markdown export of a subtitle report. Pure, so the page can build the file client-side.
+export function formatReportMarkdown(report: SubtitleReport, title = '자막 피드백 리포트'): string {
+    const lines = [
+        `# ${title}`,
+        '',
+        `- 분석 방식: ${describeReportMode(report)}`,
+        `- 자막: ${report.cueCount}개 (${report.format.toUpperCase()}), 길이 ${formatTimestamp(report.durationMs)}`,
+        '',
+    ];
+
+    const flagged = report.entries.filter(entry => entry.matches.length > 0);
+    if (flagged.length === 0) {
+        lines.push('백과사전의 문제점과 연결된 구간이 없습니다.', '');
+    }
+
+    for (const entry of flagged) {
+        lines.push(`## ${formatTimestamp(entry.start)}–${formatTimestamp(entry.end)}`, '', `> ${entry.text}`, '');
+        for (const match of entry.matches) {
+            lines.push(`- **[${match.category}] ${match.problem}** (관련도 ${match.score}%)`);
+            if (match.reason) lines.push(`  - ${match.reason}`);
+            const solution = primarySolution(match);
+            if (solution) lines.push(`  - 솔루션: ${solution.replace(/\s*\n\s*/g, ' ')}`);
+        }
+        lines.push('');
+    }
+
+    return lines.join('\n');
+}
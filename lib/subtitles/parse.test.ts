@@ -0,0 +1,84 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { detectSubtitleFormat, formatTimestamp, parseSubtitles } from './parse';
+
+const cueTexts = (content: string) => parseSubtitles(content).map(cue => cue.text);
+
+describe('parseSubtitles', () => {
+    it('parses SRT cues with a comma before the milliseconds', () => {
+        const cues = parseSubtitles('1\n00:00:01,250 --> 00:00:03,000\n안녕하세요\n\n2\n01:02:03,004 --> 01:02:04,000\n두 번째\n');
+        assert.deepEqual(cues, [
+            { index: 0, start: 1250, end: 3000, text: '안녕하세요' },
+            { index: 1, start: 3723004, end: 3724000, text: '두 번째' },
+        ]);
+    });
+
+    it('parses VTT cues with a dot before the milliseconds, including the short mm:ss form', () => {
+        const cues = parseSubtitles('WEBVTT\n\n00:00:01.500 --> 00:00:02.000\n하나\n\n01:05.000 --> 01:06.500\n둘\n');
+        assert.deepEqual(cues.map(({ start, end }) => [start, end]), [[1500, 2000], [65000, 66500]]);
+    });
+
+    it('skips the VTT header and NOTE, STYLE and REGION blocks', () => {
+        const content = [
+            'WEBVTT - 테스트 자막',
+            'Kind: captions',
+            '',
+            'NOTE 이 블록은 무시됩니다',
+            '00:00:09.000 처럼 보여도 타이밍 줄이 아닙니다',
+            '',
+            'STYLE\n::cue { color: yellow }',
+            '',
+            'REGION\nid:fred width:40%',
+            '',
+            'intro\n00:00:00.000 --> 00:00:01.000 align:start position:10%\n<v 진행자>첫 <i>자막</i>',
+            '',
+        ].join('\n');
+        assert.deepEqual(parseSubtitles(content), [{ index: 0, start: 0, end: 1000, text: '첫 자막' }]);
+    });
+
+    it('handles CRLF line endings and a byte order mark', () => {
+        const content = '\uFEFF1\r\n00:00:01,000 --> 00:00:02,000\r\n첫 줄\r\n\r\n2\r\n00:00:03,000 --> 00:00:04,000\r\n둘째\r\n';
+        assert.deepEqual(cueTexts(content), ['첫 줄', '둘째']);
+        assert.equal(detectSubtitleFormat(content), 'srt');
+    });
+
+    it('joins multi-line cues and strips formatting tags', () => {
+        const content = '1\n00:00:01,000 --> 00:00:02,000\n<font color="#fff">첫 줄</font>\n{\\an8}둘째   줄\n';
+        assert.deepEqual(cueTexts(content), ['첫 줄 둘째 줄']);
+    });
+
+    it('pads short millisecond fractions', () => {
+        const [cue] = parseSubtitles('1\n00:00:01,5 --> 00:00:02,25\n짧은 소수\n');
+        assert.deepEqual([cue.start, cue.end], [1500, 2250]);
+    });
+
+    it('skips blocks with malformed timing lines or no text', () => {
+        const content = [
+            '1\n00:00:01 --> 00:00:02\n밀리초 없음',
+            '2\n00:00:1,000 --> 00:00:02,000\n초가 한 자리',
+            '3\n00:00:01,000 -> 00:00:02,000\n화살표가 틀림',
+            '4\n00:00:05,000 --> 00:00:06,000\n',
+            '5\n00:00:07,000 --> 00:00:08,000\n정상',
+        ].join('\n\n');
+        assert.deepEqual(cueTexts(content), ['정상']);
+    });
+
+    it('sorts cues by start time and renumbers them', () => {
+        const cues = parseSubtitles('2\n00:00:05,000 --> 00:00:06,000\n나중\n\n1\n00:00:01,000 --> 00:00:02,000\n먼저\n');
+        assert.deepEqual(cues.map(cue => [cue.index, cue.text]), [[0, '먼저'], [1, '나중']]);
+    });
+});
+
+describe('detectSubtitleFormat', () => {
+    it('recognizes WebVTT by its header', () => {
+        assert.equal(detectSubtitleFormat('\uFEFF\nWEBVTT\n\n00:00.000 --> 00:01.000\n하나'), 'vtt');
+        assert.equal(detectSubtitleFormat('1\n00:00:00,000 --> 00:00:01,000\n하나'), 'srt');
+    });
+});
+
+describe('formatTimestamp', () => {
+    it('shows hours only when needed', () => {
+        assert.equal(formatTimestamp(65_400), '01:05');
+        assert.equal(formatTimestamp(3_723_004), '1:02:03');
+    });
+});
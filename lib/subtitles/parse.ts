@@ -0,0 +1,69 @@
+export type Cue = {
+    index: number;
+    // Milliseconds from the start of the video
+    start: number;
+    end: number;
+    text: string;
+};
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+// "00:01:02,345", "00:01:02.345" (SRT/VTT) or the short VTT form "01:02.345"
+const TIMESTAMP = /(?:(\d+):)?(\d{1,2}):(\d{2})[,.](\d{1,3})/;
+const TIMING_LINE = new RegExp(`${TIMESTAMP.source}\\s*-->\\s*${TIMESTAMP.source}`);
+
+function toMs(hours: string | undefined, minutes: string, seconds: string, fraction: string): number {
+    return ((Number(hours ?? 0) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000 + Number(fraction.padEnd(3, '0'));
+}
+
+// Removes VTT voice/class tags (<v Speaker>, <i>, <c.yellow>), inline timestamps and SRT font tags.
+function cleanCueText(lines: string[]): string {
+    return lines
+        .join(' ')
+        .replace(/<[^>]*>/g, '')
+        .replace(/\{\\[^}]*\}/g, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+export function detectSubtitleFormat(content: string): SubtitleFormat {
+    return content.replace(/^\uFEFF/, '').trimStart().startsWith('WEBVTT') ? 'vtt' : 'srt';
+}
+
+// Parses SRT and WebVTT into cues sorted by start time. Blocks without a timing line
+// (VTT header, NOTE, STYLE and REGION blocks) and cues without text are skipped.
+export function parseSubtitles(content: string): Cue[] {
+    const blocks = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n{2,}/);
+    const cues: Omit<Cue, 'index'>[] = [];
+
+    for (const block of blocks) {
+        const lines = block.split('\n');
+        const timingIndex = lines.findIndex(line => TIMING_LINE.test(line));
+        if (timingIndex === -1) continue;
+
+        const timing = lines[timingIndex].match(TIMING_LINE);
+        if (!timing) continue;
+
+        const text = cleanCueText(lines.slice(timingIndex + 1));
+        if (!text) continue;
+
+        cues.push({
+            start: toMs(timing[1], timing[2], timing[3], timing[4]),
+            end: toMs(timing[5], timing[6], timing[7], timing[8]),
+            text,
+        });
+    }
+
+    return cues
+        .sort((a, b) => a.start - b.start)
+        .map((cue, index) => ({ index, ...cue }));
+}
+
+export function formatTimestamp(ms: number): string {
+    const totalSeconds = Math.floor(ms / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+    const mmss = `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+    return hours > 0 ? `${hours}:${mmss}` : mmss;
+}
@@ -0,0 +1,21 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { MAX_SUBTITLE_CUES, parseSubtitleFile, SubtitleError } from './report';
+
+function srt(count: number): string {
+    return Array.from({ length: count }, (_, i) => `${i + 1}\n00:00:${String(i % 60).padStart(2, '0')},000 --> 00:00:${String(i % 60).padStart(2, '0')},500\n자막 ${i + 1}\n`).join('\n');
+}
+
+describe('parseSubtitleFile', () => {
+    it('returns the cues of a file within the limit', () => {
+        assert.equal(parseSubtitleFile(srt(MAX_SUBTITLE_CUES)).length, MAX_SUBTITLE_CUES);
+    });
+
+    it('rejects a file with more cues than a report covers with 413', () => {
+        assert.throws(() => parseSubtitleFile(srt(MAX_SUBTITLE_CUES + 1)), (error: unknown) => error instanceof SubtitleError && error.status === 413);
+    });
+
+    it('rejects a file without cues with 422', () => {
+        assert.throws(() => parseSubtitleFile('not a subtitle file'), (error: unknown) => error instanceof SubtitleError && error.status === 422);
+    });
+});
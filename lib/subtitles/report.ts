@@ -0,0 +1,95 @@
+import { diagnoseTexts, type DiagnosisMatch, type DiagnosisMode } from '@/lib/diagnosis/diagnose';
+import { detectSubtitleFormat, parseSubtitles, type Cue, type SubtitleFormat } from './parse';
+
+export type ReportEntry = {
+    start: number;
+    end: number;
+    text: string;
+    // True for the merged opening-window entry
+    opening: boolean;
+    matches: DiagnosisMatch[];
+};
+
+export type SubtitleReport = {
+    mode: DiagnosisMode;
+    provider?: string;
+    // Set in "ai" mode when the file didn't fit in one prompt: entries from this index on were matched locally
+    localFrom?: number;
+    source: string;
+    format: SubtitleFormat;
+    cueCount: number;
+    durationMs: number;
+    entries: ReportEntry[];
+};
+
+// The most cues one report covers. Longer files are rejected rather than cut short.
+export const MAX_SUBTITLE_CUES = 1000;
+
+export class SubtitleError extends Error {
+    constructor(message: string, readonly status: number) {
+        super(message);
+        this.name = 'SubtitleError';
+    }
+}
+
+// Everything said in the opening window is judged together, as one "first three seconds" entry.
+const EARLY_WINDOW_MS = 3000;
+const EARLY_BOOST = 1.5;
+const LATE_PENALTY = 0.5;
+
+// Categories whose problems are about the opening of the video. Matches from them are boosted
+// in the opening window and down-weighted everywhere else.
+function timeSensitiveCategories(): Set<string> {
+    return new Set((process.env.TIME_SENSITIVE_CATEGORIES || '초반3초').split(',').map(c => c.trim()).filter(Boolean));
+}
+
+function groupCues(cues: Cue[]): Omit<ReportEntry, 'matches'>[] {
+    const opening = cues.filter(cue => cue.start < EARLY_WINDOW_MS);
+    const rest = cues.filter(cue => cue.start >= EARLY_WINDOW_MS);
+
+    return [
+        ...(opening.length > 0
+            ? [{ start: 0, end: EARLY_WINDOW_MS, text: opening.map(cue => cue.text).join(' '), opening: true }]
+            : []),
+        ...rest.map(({ start, end, text }) => ({ start, end, text, opening: false })),
+    ];
+}
+
+function weightMatches(matches: DiagnosisMatch[], isOpening: boolean, categories: Set<string>): DiagnosisMatch[] {
+    return matches
+        .map(match => {
+            if (!categories.has(match.category)) return match;
+            const weighted = match.score * (isOpening ? EARLY_BOOST : LATE_PENALTY);
+            return { ...match, score: Math.min(100, Math.round(weighted)) };
+        })
+        .sort((a, b) => b.score - a.score);
+}
+
+// Parses an uploaded file, rejecting one with no cues or more than a report covers.
+export function parseSubtitleFile(content: string): Cue[] {
+    const cues = parseSubtitles(content);
+    if (cues.length === 0) {
+        throw new SubtitleError('No subtitle cues found. Is this an SRT or WebVTT file?', 422);
+    }
+    if (cues.length > MAX_SUBTITLE_CUES) {
+        throw new SubtitleError(`Subtitle file has more than ${MAX_SUBTITLE_CUES} cues`, 413);
+    }
+    return cues;
+}
+
+export async function buildSubtitleReport(content: string, cues: Cue[]): Promise<SubtitleReport> {
+    const groups = groupCues(cues);
+    const { matches, ...diagnosis } = await diagnoseTexts(groups.map(group => group.text));
+    const categories = timeSensitiveCategories();
+
+    return {
+        ...diagnosis,
+        format: detectSubtitleFormat(content),
+        cueCount: cues.length,
+        durationMs: cues.reduce((max, cue) => Math.max(max, cue.end), 0),
+        entries: groups.map((group, i) => ({
+            ...group,
+            matches: weightMatches(matches[i], group.opening, categories),
+        })),
+    };
+}
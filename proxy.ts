@@ -0,0 +1,31 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { SESSION_COOKIE, isAuthEnabled, isReadApiToken, verifySessionToken } from '@/lib/auth/session';
+
+// Keeps the whole app behind the team login once TEAM_PASSCODE is set.
+// Pages redirect to /login; API calls get a 401 so the client can show it.
+export async function proxy(request: NextRequest) {
+    if (!isAuthEnabled()) return NextResponse.next();
+
+    const session = await verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+    if (session) return NextResponse.next();
+
+    const { pathname, search } = request.nextUrl;
+    // Other tools can read the encyclopedia with a token instead of a login
+    const authorization = request.headers.get('authorization') || '';
+    const isReadApi = request.method === 'GET' && /^\/api\/feedback(\/|$)/.test(pathname);
+    if (isReadApi && authorization.startsWith('Bearer ') && isReadApiToken(authorization.slice('Bearer '.length))) {
+        return NextResponse.next();
+    }
+    if (pathname.startsWith('/api/')) {
+        return NextResponse.json({ error: 'Login required' }, { status: 401 });
+    }
+    const login = new URL('/login', request.url);
+    login.searchParams.set('next', pathname + search);
+    return NextResponse.redirect(login);
+}
+
+// Not gated: static assets, the login page and its API, and the routes with their own credentials
+// (the admin API and the cache refresh hook use bearer tokens, the chat command a request signature)
+export const config = {
+    matcher: ['/((?!_next/static|_next/image|favicon.ico|login|api/auth|api/admin|api/feedback/refresh|api/chat).*)'],
+};
@@ -0,0 +1,49 @@
+// Posts a signed slash command to the chat webhook, the way the chat service would, and prints the reply.
+//
+//   CHAT_SIGNING_SECRET=... npm run chat:command -- 자막이 너무 많아요
+//   CHAT_SIGNING_SECRET=... npm run chat:command -- --url https://<host>/api/chat/command 자막이 너무 많아요
+//   CHAT_SIGNING_SECRET=... npm run chat:command -- --curl 자막이 너무 많아요   # print a curl command instead
+//
+// The URL defaults to CHAT_COMMAND_URL, then the local dev server. No response_url is sent, so the reply comes back inline.
+import { signChatRequest, SIGNATURE_HEADER, TIMESTAMP_HEADER } from '../lib/chat/signature';
+
+const DEFAULT_URL = 'http://localhost:3000/api/chat/command';
+
+function shellQuote(text: string): string {
+    return `'${text.replace(/'/g, `'\\''`)}'`;
+}
+
+async function main() {
+    const args = process.argv.slice(2);
+    const urlFlag = args.indexOf('--url');
+    const url = urlFlag === -1 ? process.env.CHAT_COMMAND_URL || DEFAULT_URL : args[urlFlag + 1];
+    const text = args.filter((arg, i) => !arg.startsWith('--') && (urlFlag === -1 || i !== urlFlag + 1)).join(' ');
+
+    const secret = process.env.CHAT_SIGNING_SECRET;
+    if (!secret) throw new Error('Set CHAT_SIGNING_SECRET to the same value as the server');
+    if (!url) throw new Error('--url needs a value');
+
+    const body = new URLSearchParams({ command: '/피드백', text, user_id: 'local-test', user_name: 'local-test' }).toString();
+    const timestamp = Math.floor(Date.now() / 1000);
+    const headers = {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        [TIMESTAMP_HEADER]: String(timestamp),
+        [SIGNATURE_HEADER]: signChatRequest(body, secret, timestamp),
+    };
+
+    if (args.includes('--curl')) {
+        const headerArgs = Object.entries(headers).map(([name, value]) => `-H ${shellQuote(`${name}: ${value}`)}`);
+        console.log(`curl -X POST ${shellQuote(url)} ${headerArgs.join(' ')} --data ${shellQuote(body)}`);
+        return;
+    }
+
+    const response = await fetch(url, { method: 'POST', headers, body });
+    const reply = await response.json();
+    if (!response.ok) throw new Error(`${response.status}: ${reply.error ?? JSON.stringify(reply)}`);
+    console.log(reply.text);
+}
+
+main().catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+});
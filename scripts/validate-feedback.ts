@@ -0,0 +1,30 @@
+// Checks a feedback source before publishing.
+//
+//   npm run validate:feedback                          # the configured sources (FEEDBACK_SOURCES)
+//   npm run validate:feedback -- data/export.csv       # a local CSV or JSON file
+//   npm run validate:feedback -- sheet:<SHEET_ID> --json --strict
+//
+// Exits with 1 when there are errors (missing columns, dropped rows), or any warning with --strict.
+import { formatValidationReport, validateSource } from '../lib/feedback/validate';
+
+function toSpec(arg: string | undefined): string | undefined {
+    if (!arg || /^(sheet|csv|json|editor):/.test(arg)) return arg;
+    return arg.toLowerCase().endsWith('.json') ? `json:${arg}` : `csv:${arg}`;
+}
+
+async function main() {
+    const args = process.argv.slice(2);
+    const flags = new Set(args.filter(arg => arg.startsWith('--')));
+    const spec = toSpec(args.find(arg => !arg.startsWith('--')));
+
+    const report = await validateSource(spec);
+    console.log(flags.has('--json') ? JSON.stringify(report, null, 2) : formatValidationReport(report));
+
+    const failed = report.errorCount > 0 || (flags.has('--strict') && report.warningCount > 0);
+    process.exitCode = failed ? 1 : 0;
+}
+
+main().catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 2;
+});